@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveScanQueries } from '@/lib/profiles';
+import { getNewsSources } from '@/lib/sources';
+import { getConfiguredLanguages } from '@/lib/languages';
+import { getConfiguredAssets } from '@/lib/assets';
+import { runScan } from '@/lib/scan-runner';
+import { getConsensusClients, getLlmClient } from '@/lib/llm';
+import { buildScanRecord } from '@/lib/aggregation';
+import { generateSummary } from '@/lib/summary';
+import { getWatchlist, saveScan, updateScanSummary } from '@/lib/supabase';
+
+// A full scan with summary can take a few minutes
+export const maxDuration = 300;
+
+// Scheduled scan - triggered by Vercel Cron (see vercel.json) or any scheduler sending the secret
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  const llm = getLlmClient();
+
+  if (!cronSecret) {
+    return NextResponse.json({ error: 'CRON_SECRET not configured' }, { status: 500 });
+  }
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const sources = getNewsSources();
+  // Without an LLM the scan still runs, with offline analyses and no summary
+  if (sources.length === 0) {
+    return NextResponse.json({ error: 'API keys not configured' }, { status: 500 });
+  }
+
+  try {
+    const { queries, profile } = await resolveScanQueries({
+      profileId: request.nextUrl.searchParams.get('profile'),
+    });
+
+    const result = await runScan({
+      llm,
+      consensus: getConsensusClients(),
+      sources,
+      queries,
+      profile,
+      languages: getConfiguredLanguages(),
+      assets: getConfiguredAssets(request.nextUrl.searchParams.get('assets')),
+    });
+
+    const scan = await saveScan(buildScanRecord(result.articles, result.total, result.window));
+
+    // Same briefing the dashboard generates, stored with the scan
+    let summary: string | null = null;
+    if (llm && result.articles.length > 0) {
+      summary = await generateSummary(result.articles, await getWatchlist(), llm);
+      if (summary && scan?.id) await updateScanSummary(scan.id, summary);
+    }
+
+    return NextResponse.json({
+      scanId: scan?.id || null,
+      profile,
+      total: result.total,
+      failed: result.failed,
+      window: result.window,
+      summary: Boolean(summary),
+    });
+  } catch (error) {
+    console.error('Scheduled scan error:', error);
+    return NextResponse.json({ error: 'Scheduled scan failed' }, { status: 500 });
+  }
+}
@@ -1,7 +1,17 @@
 'use client';
 
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { saveScan, saveWatchlist, getWatchlist } from '@/lib/supabase';
+import { saveScan, saveWatchlist, getWatchlist, getQueryProfiles, saveQueryProfile, deleteQueryProfile } from '@/lib/supabase';
+import { QUERY_CATEGORIES, mergeQueries, type SearchQuery } from '@/lib/queries';
+import { outletCount } from '@/lib/clustering';
+import { getStoryCredibility, type CredibilityTier, type SourceCredibility } from '@/lib/credibility';
+import { articleImpact, articleWeight, buildScanRecord, labelScore, sectorProbability, sectorScore } from '@/lib/aggregation';
+import { languageName } from '@/lib/languages';
+import { ENTITY_TYPE_LABELS, entityKey } from '@/lib/entities';
+import { EVENT_TYPES } from '@/lib/events';
+import { SUBREGIONS, getCountryInfo, regionalCountry } from '@/lib/gazetteer';
+import { DEFAULT_ASSET_IDS, MACRO_ASSETS, assetImplication, assetName, resolveAssets } from '@/lib/assets';
+import type { AnalysisConsensus, ArticleCoverage, CausalStage, CausalStep, Entity, EntityType, EventType } from '@/lib/types';
 
 // Types
 interface SectorImpact {
@@ -9,8 +19,11 @@ interface SectorImpact {
   impact: 'Bullish' | 'Bearish' | 'Neutral' | 'Uncertain';
   reasoning: string;
   tickers: string[];
+  unverifiedTickers?: string[]; // not found in the symbol universe; unset on older analyses
   timeframe: 'Short-term' | 'Medium-term' | 'Long-term';
   confidence: 'High' | 'Medium' | 'Low';
+  score?: number; // -1..1
+  probability?: number; // 0-1
 }
 
 interface Analysis {
@@ -18,14 +31,14 @@ interface Analysis {
   sectors: SectorImpact[];
   overallSentiment: 'Bullish' | 'Bearish' | 'Mixed' | 'Neutral';
   keyInsight: string;
+  impactScore?: number; // -1..1
+  probability?: number; // 0-1
+  causalChain?: CausalStep[];
+  consensus?: AnalysisConsensus;
 }
 
-interface Implications {
-  gold: string;
-  silver: string;
-  rareMinerals: string;
-  stockMarkets: string;
-}
+// Asset id → Bullish, Bearish, Mixed or Neutral; older analyses use gold, silver, rareMinerals and stockMarkets
+type Implications = Record<string, string>;
 
 interface AnalyzedArticle {
   id?: string;
@@ -34,8 +47,16 @@ interface AnalyzedArticle {
   url: string;
   publishedAt: string;
   region: string;
+  countries?: string[]; // ISO codes, most mentioned first
+  subregion?: string;
   category?: string;
+  language?: string;
+  originalTitle?: string; // present when the title was translated to English
+  coveredBy?: ArticleCoverage[];
+  credibility?: SourceCredibility;
   analysis?: Analysis;
+  entities?: Entity[];
+  eventType?: EventType;
   implications: Implications;
   pending?: boolean; // true when article is fetched but not yet analyzed
 }
@@ -47,6 +68,13 @@ interface StockResult {
   type: string;
 }
 
+interface QueryProfile {
+  id: string; // Supabase id, or local-<timestamp> for profiles only kept in localStorage
+  name: string;
+  queries: SearchQuery[];
+  enabled: boolean;
+}
+
 type GroupedArticles = Record<string, AnalyzedArticle[]>;
 
 const REGIONS = ['All', 'Americas', 'Europe', 'Asia', 'Middle East', 'Africa'] as const;
@@ -55,6 +83,14 @@ type Region = typeof REGIONS[number];
 const IMPACT_FILTERS = ['All', 'Bullish', 'Bearish', 'Neutral', 'Uncertain'] as const;
 type ImpactFilter = typeof IMPACT_FILTERS[number];
 
+const EVENT_FILTERS = ['All', ...EVENT_TYPES] as const;
+type EventFilter = typeof EVENT_FILTERS[number];
+
+const SORT_OPTIONS = ['Latest', 'Impact'] as const;
+type SortOption = typeof SORT_OPTIONS[number];
+
+const sameEntity = (a: Entity, b: Entity) => a.type === b.type && entityKey(a.name) === entityKey(b.name);
+
 // Utility: Check if article mentions watchlist tickers
 const articleMentionsTicker = (article: AnalyzedArticle, watchlist: string[]): boolean => {
   if (!watchlist.length) return false;
@@ -66,17 +102,6 @@ const articleMentionsTicker = (article: AnalyzedArticle, watchlist: string[]): b
   );
 };
 
-// Calculate sentiment score from articles
-const calculateSentiment = (articles: AnalyzedArticle[]): number => {
-  let score = 0;
-  articles.forEach(a => {
-    const sentiment = a.analysis?.overallSentiment;
-    if (sentiment === 'Bullish') score += 1;
-    else if (sentiment === 'Bearish') score -= 1;
-  });
-  return articles.length ? Math.round((score / articles.length) * 100) : 0;
-};
-
 // Globe SVG Component
 const GlobeIcon = ({ className }: { className?: string }) => (
   <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
@@ -130,6 +155,68 @@ const Tooltip = ({ children, content, delay = 300 }: { children: React.ReactNode
   );
 };
 
+// Ticker Chip - verified symbols get a check, unverified ones are dashed; older analyses show neither
+const TickerChip = ({ ticker, verified, className }: { ticker: string; verified?: boolean; className: string }) => (
+  <span
+    className={`px-2 py-0.5 text-xs font-mono rounded ${
+      verified === false ? 'border border-dashed border-slate-600 text-slate-500' : className
+    }`}
+    title={verified === undefined ? undefined : verified ? 'Verified symbol' : 'Not found in the symbol universe - may not exist'}
+  >
+    {verified && <span className="text-emerald-400 mr-1">✓</span>}
+    {ticker}
+    {verified === false && '?'}
+  </span>
+);
+
+// Causal chain node colors by stage
+const STAGE_STYLES: Record<CausalStage, string> = {
+  'Political event': 'border-indigo-500/40 bg-indigo-500/10 text-indigo-300',
+  'Economic impact': 'border-sky-500/40 bg-sky-500/10 text-sky-300',
+  'Market impact': 'border-amber-500/40 bg-amber-500/10 text-amber-300',
+};
+
+// Causal chain as a top-to-bottom flow: event → economic effects → market impact nodes.
+// Consecutive market impact nodes are branches of the same effect, so they sit side by side.
+const CausalChainFlow = ({ steps }: { steps: CausalStep[] }) => {
+  const rows: CausalStep[][] = [];
+  steps.forEach(step => {
+    const last = rows[rows.length - 1];
+    if (step.stage === 'Market impact' && last?.[0].stage === 'Market impact') last.push(step);
+    else rows.push([step]);
+  });
+
+  return (
+    <div className="flex flex-col items-stretch">
+      {rows.map((row, i) => (
+        <div key={i}>
+          {i > 0 && <div className="text-center text-slate-600 text-xs leading-4">↓</div>}
+          <div className={`grid gap-1 ${row.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+            {row.map((step, j) => (
+              <div key={j} className={`border rounded px-2 py-1 text-xs ${STAGE_STYLES[step.stage] || STAGE_STYLES['Economic impact']}`}>
+                <div className="text-[10px] uppercase tracking-wider opacity-70">
+                  {step.stage}{step.sector ? ` · ${step.sector}` : ''}
+                </div>
+                <div className="text-slate-300">{step.description}</div>
+                {(step.tickers?.length || step.unverifiedTickers?.length) ? (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {step.tickers?.map(ticker => (
+                      <TickerChip key={ticker} ticker={ticker} verified={step.unverifiedTickers ? true : undefined} className="bg-slate-700/50 text-slate-300" />
+                    ))}
+                    {step.unverifiedTickers?.map(ticker => (
+                      <TickerChip key={`unverified-${ticker}`} ticker={ticker} verified={false} className="bg-slate-700/50 text-slate-300" />
+                    ))}
+                  </div>
+                ) : null}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
 // Sector Tooltip Content
 const SectorTooltipContent = ({ sector }: { sector: SectorImpact }) => {
   const impactColors = { Bullish: 'text-emerald-400', Bearish: 'text-red-400', Neutral: 'text-slate-400', Uncertain: 'text-amber-400' };
@@ -144,18 +231,25 @@ const SectorTooltipContent = ({ sector }: { sector: SectorImpact }) => {
         </span>
       </div>
       <p className="text-sm text-slate-300 leading-relaxed">{sector.reasoning}</p>
-      {sector.tickers?.length > 0 && (
+      {(sector.tickers?.length > 0 || (sector.unverifiedTickers?.length ?? 0) > 0) && (
         <div>
           <div className="text-xs text-slate-500 uppercase tracking-wider mb-1">Affected Tickers</div>
           <div className="flex flex-wrap gap-1">
             {sector.tickers.map(ticker => (
-              <span key={ticker} className="px-2 py-0.5 bg-slate-800 text-slate-300 text-xs font-mono rounded">{ticker}</span>
+              <TickerChip key={ticker} ticker={ticker} verified={sector.unverifiedTickers ? true : undefined} className="bg-slate-800 text-slate-300" />
+            ))}
+            {sector.unverifiedTickers?.map(ticker => (
+              <TickerChip key={`unverified-${ticker}`} ticker={ticker} verified={false} className="bg-slate-800 text-slate-300" />
             ))}
           </div>
         </div>
       )}
       <div className="flex items-center justify-between text-xs pt-2 border-t border-slate-700">
-        <span className="text-slate-400">{sector.timeframe}</span>
+        <span className="text-slate-400">
+          {sector.timeframe}
+          {sector.score !== undefined && ` · Score ${sector.score > 0 ? '+' : ''}${sector.score.toFixed(2)}`}
+          {sector.probability !== undefined && ` · ${Math.round(sector.probability * 100)}% likely`}
+        </span>
         <span className={`px-2 py-0.5 rounded ${confidenceColors[sector.confidence]}`}>{sector.confidence} Confidence</span>
       </div>
     </div>
@@ -282,6 +376,139 @@ const Watchlist = ({ watchlist, onRemove, onAdd }: { watchlist: string[]; onRemo
   </div>
 );
 
+// Profile Editor Component
+const ProfileEditor = ({ profile, onSave, onCancel }: { profile: QueryProfile; onSave: (profile: QueryProfile) => void; onCancel: () => void }) => {
+  const [name, setName] = useState(profile.name);
+  const [queries, setQueries] = useState<SearchQuery[]>(profile.queries);
+
+  const updateQuery = (idx: number, changes: Partial<SearchQuery>) => {
+    setQueries(prev => prev.map((q, i) => i === idx ? { ...q, ...changes } : q));
+  };
+
+  const validQueries = queries.filter(q => q.query.trim());
+
+  return (
+    <div className="space-y-3 mt-3 p-3 bg-slate-900/50 border border-slate-700/50 rounded-lg">
+      <input
+        type="text"
+        value={name}
+        onChange={e => setName(e.target.value)}
+        placeholder="Profile name (e.g., Energy & OPEC)"
+        className="w-full px-3 py-1.5 bg-slate-800/50 border border-slate-700/50 rounded-lg text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+      />
+      {queries.map((q, idx) => (
+        <div key={idx} className="flex gap-2">
+          <input
+            type="text"
+            value={q.query}
+            onChange={e => updateQuery(idx, { query: e.target.value })}
+            placeholder="Search terms"
+            className="flex-1 min-w-0 px-3 py-1.5 bg-slate-800/50 border border-slate-700/50 rounded-lg text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+          />
+          <select
+            value={q.category}
+            onChange={e => updateQuery(idx, { category: e.target.value })}
+            className="bg-slate-800/50 border border-slate-700/50 rounded-lg px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+          >
+            {QUERY_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <input
+            type="number"
+            min={1}
+            max={100}
+            value={q.pageSize}
+            onChange={e => updateQuery(idx, { pageSize: Number(e.target.value) })}
+            title="Articles per query"
+            className="w-16 px-2 py-1.5 bg-slate-800/50 border border-slate-700/50 rounded-lg text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+          />
+          <button onClick={() => setQueries(prev => prev.filter((_, i) => i !== idx))} className="px-2 text-slate-500 hover:text-red-400 transition-colors">&times;</button>
+        </div>
+      ))}
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => setQueries(prev => [...prev, { query: '', pageSize: 20, category: 'Markets' }])}
+          className="text-xs text-amber-500 hover:text-amber-400 font-medium"
+        >
+          + Add query
+        </button>
+        <div className="flex gap-2">
+          <button onClick={onCancel} className="px-3 py-1.5 text-sm bg-slate-700/50 text-slate-300 rounded hover:bg-slate-600/50 transition-colors">Cancel</button>
+          <button
+            onClick={() => onSave({ ...profile, name: name.trim(), queries: validQueries })}
+            disabled={!name.trim() || validQueries.length === 0}
+            className="px-3 py-1.5 text-sm bg-amber-500/20 text-amber-400 rounded hover:bg-amber-500/30 transition-colors disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Query Profiles Component
+const QueryProfiles = ({ profiles, selectedId, onSelect, onSave, onDelete }: {
+  profiles: QueryProfile[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onSave: (profile: QueryProfile) => void;
+  onDelete: (id: string) => void;
+}) => {
+  const [editing, setEditing] = useState<QueryProfile | null>(null);
+  const enabledProfiles = profiles.filter(p => p.enabled);
+
+  return (
+    <div className="bg-slate-800/30 border border-slate-700/30 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-slate-200">Query Profiles</h3>
+        <select
+          value={selectedId}
+          onChange={e => onSelect(e.target.value)}
+          className="bg-slate-800/50 border border-slate-700/50 rounded-lg px-3 py-1.5 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+        >
+          <option value="">{enabledProfiles.length ? 'All enabled profiles' : 'Default queries'}</option>
+          {enabledProfiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+      </div>
+      {profiles.length > 0 ? (
+        <div className="space-y-1">
+          {profiles.map(profile => (
+            <div key={profile.id} className="flex items-center gap-2 px-2 py-1.5 rounded hover:bg-slate-700/30">
+              <input
+                type="checkbox"
+                checked={profile.enabled}
+                onChange={e => onSave({ ...profile, enabled: e.target.checked })}
+                className="rounded bg-slate-700 border-slate-600 text-amber-500 focus:ring-amber-500"
+              />
+              <span className={`flex-1 text-sm ${profile.enabled ? 'text-slate-200' : 'text-slate-500'}`}>{profile.name}</span>
+              <span className="text-xs text-slate-500">{profile.queries.length} {profile.queries.length === 1 ? 'query' : 'queries'}</span>
+              <button onClick={() => setEditing(profile)} className="text-xs text-slate-400 hover:text-amber-400 transition-colors">Edit</button>
+              <button onClick={() => onDelete(profile.id)} className="text-slate-500 hover:text-red-400 transition-colors">&times;</button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-slate-500">Scanning with the default queries. Create a profile to focus on specific themes.</p>
+      )}
+      {editing ? (
+        <ProfileEditor
+          key={editing.id}
+          profile={editing}
+          onCancel={() => setEditing(null)}
+          onSave={profile => { onSave(profile); setEditing(null); }}
+        />
+      ) : (
+        <button
+          onClick={() => setEditing({ id: `local-${Date.now()}`, name: '', queries: [{ query: '', pageSize: 20, category: 'Markets' }], enabled: true })}
+          className="mt-3 text-xs text-amber-500 hover:text-amber-400 font-medium"
+        >
+          + New profile
+        </button>
+      )}
+    </div>
+  );
+};
+
 // Sector data type
 interface SectorData {
   name: string;
@@ -289,6 +516,7 @@ interface SectorData {
   neutral: number;
   bearish: number;
   total: number;
+  articles: number;
   netScore: number;
 }
 
@@ -320,27 +548,31 @@ const SectorHeatmap = ({
 }) => {
   const [showAll, setShowAll] = useState(false);
 
-  // Aggregate sector data from articles
+  // Aggregate sector data from articles, weighted by source credibility and impact probability
   const sectorData: SectorData[] = Object.entries(TRACKED_SECTORS).map(([key, displayName]) => {
-    let bullish = 0, neutral = 0, bearish = 0;
+    let bullish = 0, neutral = 0, bearish = 0, net = 0, articleCount = 0;
 
     articles.forEach(article => {
+      const weight = articleWeight(article);
       article.analysis?.sectors?.forEach(sector => {
         // Match sector name (flexible matching)
         const sectorName = sector.sector.toLowerCase();
         const keyLower = key.toLowerCase();
         if (sectorName.includes(keyLower) || keyLower.includes(sectorName)) {
-          if (sector.impact === 'Bullish') bullish++;
-          else if (sector.impact === 'Bearish') bearish++;
-          else neutral++;
+          articleCount++;
+          const sectorWeight = weight * sectorProbability(sector);
+          net += sectorWeight * sectorScore(sector);
+          if (sector.impact === 'Bullish') bullish += sectorWeight;
+          else if (sector.impact === 'Bearish') bearish += sectorWeight;
+          else neutral += sectorWeight;
         }
       });
     });
 
     const total = bullish + neutral + bearish;
-    const netScore = bullish - bearish;
+    const netScore = Math.round(net * 10) / 10;
 
-    return { name: displayName, bullish, neutral, bearish, total, netScore };
+    return { name: displayName, bullish, neutral, bearish, total, articles: articleCount, netScore };
   })
     .filter(s => s.total > 0) // Only show sectors with data
     .sort((a, b) => b.total - a.total); // Sort by most impacted
@@ -366,7 +598,7 @@ const SectorHeatmap = ({
       <div className="flex items-center justify-between mb-4">
         <div>
           <h3 className="text-lg font-semibold text-slate-200">Sector Impact Heatmap</h3>
-          <p className="text-xs text-slate-500">Click a sector to filter news</p>
+          <p className="text-xs text-slate-500">Weighted by credibility and probability · Click a sector to filter news</p>
         </div>
         {selectedSector && (
           <button
@@ -404,7 +636,7 @@ const SectorHeatmap = ({
               } ${
                 sector.netScore > 0 ? 'hover:bg-emerald-500/10' : sector.netScore < 0 ? 'hover:bg-red-500/10' : ''
               }`}
-              title={`${sector.name}: ${sector.bullish} bullish, ${sector.neutral} neutral, ${sector.bearish} bearish`}
+              title={`${sector.name}: ${sector.bullish.toFixed(1)} bullish, ${sector.neutral.toFixed(1)} neutral, ${sector.bearish.toFixed(1)} bearish, net impact ${sector.netScore} (credibility- and probability-weighted)`}
             >
               {/* Sector name and bar */}
               <div className="space-y-1.5">
@@ -412,7 +644,7 @@ const SectorHeatmap = ({
                   <span className={`text-sm font-medium ${isSelected ? 'text-amber-400' : 'text-slate-200'}`}>
                     {sector.name}
                   </span>
-                  <span className="text-xs text-slate-500 ml-2">{sector.total} articles</span>
+                  <span className="text-xs text-slate-500 ml-2">{sector.articles} articles</span>
                 </div>
 
                 {/* Stacked bar */}
@@ -441,9 +673,9 @@ const SectorHeatmap = ({
 
                 {/* Legend on hover */}
                 <div className="flex gap-3 text-xs opacity-0 group-hover:opacity-100 transition-opacity">
-                  <span className="text-emerald-400">↑{sector.bullish}</span>
-                  <span className="text-slate-400">→{sector.neutral}</span>
-                  <span className="text-red-400">↓{sector.bearish}</span>
+                  <span className="text-emerald-400">↑{sector.bullish.toFixed(1)}</span>
+                  <span className="text-slate-400">→{sector.neutral.toFixed(1)}</span>
+                  <span className="text-red-400">↓{sector.bearish.toFixed(1)}</span>
                 </div>
               </div>
 
@@ -491,6 +723,121 @@ const SectorHeatmap = ({
   );
 };
 
+// Per-asset lean across the scan, for the assets the user chose to assess
+const AssetPanel = ({
+  articles,
+  assets,
+  selectedAsset,
+  onAssetClick,
+  onAssetsChange,
+}: {
+  articles: AnalyzedArticle[];
+  assets: string[];
+  selectedAsset: string | null;
+  onAssetClick: (asset: string | null) => void;
+  onAssetsChange: (assets: string[]) => void;
+}) => {
+  const [editing, setEditing] = useState(false);
+
+  // Weighted label counts per asset; net is the credibility-weighted lean from -100 to 100
+  const assetData = assets.map(id => {
+    let bullish = 0, bearish = 0, other = 0, net = 0, assessed = 0;
+    articles.forEach(article => {
+      const label = assetImplication(article.implications, id);
+      if (!label) return; // analyzed before this asset was chosen
+      const weight = articleWeight(article);
+      assessed++;
+      net += weight * labelScore(label);
+      if (label === 'Bullish') bullish += weight;
+      else if (label === 'Bearish') bearish += weight;
+      else other += weight;
+    });
+    const total = bullish + bearish + other;
+    return { id, bullish, bearish, other, total, assessed, netScore: total ? Math.round((net / total) * 100) : 0 };
+  });
+
+  const toggleAsset = (id: string) => {
+    const next = assets.includes(id) ? assets.filter(a => a !== id) : [...assets, id];
+    if (next.length > 0) onAssetsChange(next);
+  };
+
+  return (
+    <div className="bg-slate-800/30 border border-slate-700/30 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-200">Asset Implications</h3>
+          <p className="text-xs text-slate-500">Weighted by credibility · Click an asset to filter news</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {selectedAsset && (
+            <button
+              onClick={() => onAssetClick(null)}
+              className="text-xs px-2 py-1 bg-amber-500/20 text-amber-400 rounded hover:bg-amber-500/30 transition-colors"
+            >
+              Clear filter
+            </button>
+          )}
+          <button
+            onClick={() => setEditing(prev => !prev)}
+            className="text-xs px-2 py-1 text-slate-400 hover:text-slate-200 bg-slate-700/50 rounded transition-colors"
+          >
+            {editing ? 'Done' : 'Edit assets'}
+          </button>
+        </div>
+      </div>
+
+      {editing && (
+        <div className="mb-4 pb-4 border-b border-slate-700/50">
+          <div className="flex flex-wrap gap-1.5">
+            {MACRO_ASSETS.map(asset => (
+              <button
+                key={asset.id}
+                onClick={() => toggleAsset(asset.id)}
+                title={asset.description}
+                className={`px-2 py-1 text-xs rounded border transition-colors ${assets.includes(asset.id) ? 'bg-amber-500/20 text-amber-400 border-amber-500/30' : 'bg-slate-700/30 text-slate-400 border-slate-600/50 hover:text-slate-200'}`}
+              >
+                {asset.name}
+              </button>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-slate-500">Applies from the next scan - stored analyses keep the assets they were made with.</p>
+        </div>
+      )}
+
+      <div className="space-y-1">
+        {assetData.map(asset => {
+          const isSelected = selectedAsset === asset.id;
+          const ticker = MACRO_ASSETS.find(a => a.id === asset.id)?.ticker;
+          return (
+            <div
+              key={asset.id}
+              onClick={() => onAssetClick(isSelected ? null : asset.id)}
+              className={`grid grid-cols-[1fr,auto] gap-2 items-center p-2 rounded-lg cursor-pointer transition-all ${isSelected ? 'bg-amber-500/20 ring-1 ring-amber-500/50' : 'hover:bg-slate-700/30'}`}
+              title={`${assetName(asset.id)}: ${asset.bullish.toFixed(1)} bullish, ${asset.other.toFixed(1)} neutral or mixed, ${asset.bearish.toFixed(1)} bearish across ${asset.assessed} articles (credibility-weighted)`}
+            >
+              <div className="flex items-center gap-2 min-w-0">
+                <span className={`text-sm font-medium ${isSelected ? 'text-amber-400' : 'text-slate-200'}`}>{assetName(asset.id)}</span>
+                {ticker && <span className="text-xs font-mono text-slate-500">{ticker}</span>}
+                <span className="text-xs text-slate-500 ml-auto">
+                  {asset.assessed > 0 ? (
+                    <>
+                      <span className="text-emerald-400">↑{asset.bullish.toFixed(1)}</span>{' '}
+                      <span className="text-red-400">↓{asset.bearish.toFixed(1)}</span>
+                    </>
+                  ) : 'Not assessed yet'}
+                </span>
+              </div>
+              <div className={`w-14 text-right font-mono font-bold ${asset.netScore > 0 ? 'text-emerald-400' : asset.netScore < 0 ? 'text-red-400' : 'text-slate-400'}`}>
+                {asset.total > 0 ? `${asset.netScore > 0 ? '+' : ''}${asset.netScore}` : '-'}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
 // AI Summary Report Component
 const SummaryReport = ({ summary, isLoading, onRegenerate, onCopy }: { summary: string; isLoading: boolean; onRegenerate: () => void; onCopy: () => void }) => {
   if (!summary && !isLoading) return null;
@@ -548,15 +895,49 @@ const SummaryReport = ({ summary, isLoading, onRegenerate, onCopy }: { summary:
   );
 };
 
+// Credibility tier badge colors
+const TIER_STYLES: Record<CredibilityTier, string> = {
+  Official: 'bg-blue-500/20 text-blue-300',
+  Wire: 'bg-emerald-500/20 text-emerald-300',
+  Major: 'bg-emerald-500/10 text-emerald-400',
+  Standard: 'bg-slate-700/50 text-slate-300',
+  Unrated: 'bg-slate-700/30 text-slate-500',
+  Tabloid: 'bg-orange-500/20 text-orange-300',
+};
+
+// Entity chip colors by type
+const ENTITY_STYLES: Record<EntityType, string> = {
+  country: 'bg-sky-500/15 text-sky-300 border-sky-500/30',
+  person: 'bg-violet-500/15 text-violet-300 border-violet-500/30',
+  party: 'bg-pink-500/15 text-pink-300 border-pink-500/30',
+  central_bank: 'bg-amber-500/15 text-amber-300 border-amber-500/30',
+  institution: 'bg-teal-500/15 text-teal-300 border-teal-500/30',
+  legislation: 'bg-lime-500/15 text-lime-300 border-lime-500/30',
+};
+
+// Entity chip - clicking filters the feed to stories about that entity
+const EntityChip = ({ entity, active, onSelect }: { entity: Entity; active?: boolean; onSelect?: (entity: Entity) => void }) => (
+  <button
+    className={`px-2 py-0.5 text-xs rounded border transition-colors ${ENTITY_STYLES[entity.type] || ENTITY_STYLES.institution} ${active ? 'ring-1 ring-amber-400' : 'hover:brightness-125'}`}
+    title={`${ENTITY_TYPE_LABELS[entity.type] || entity.type} - show all stories`}
+    onClick={(e) => { e.stopPropagation(); onSelect?.(entity); }}
+  >
+    {entity.name}
+  </button>
+);
+
 // News Card Component
-const NewsCard = ({ article, index, isWatchlisted, isExpanded, onToggleExpand }: {
+const NewsCard = ({ article, index, isWatchlisted, isExpanded, onToggleExpand, activeEntity, onEntitySelect }: {
   article: AnalyzedArticle;
   index: number;
   isWatchlisted: boolean;
   isExpanded?: boolean;
   onToggleExpand?: () => void;
+  activeEntity?: Entity | null;
+  onEntitySelect?: (entity: Entity) => void;
 }) => {
   const [localExpanded, setLocalExpanded] = useState(false);
+  const [showOriginal, setShowOriginal] = useState(false);
   const expanded = isExpanded !== undefined ? isExpanded : localExpanded;
   const toggleExpand = onToggleExpand || (() => setLocalExpanded(prev => !prev));
 
@@ -569,6 +950,15 @@ const NewsCard = ({ article, index, isWatchlisted, isExpanded, onToggleExpand }:
     return 'Just now';
   };
 
+  // The country the story files under in its region, else the most mentioned one
+  const countryCode = regionalCountry(article.countries, article.region) || article.countries?.[0];
+  const country = countryCode ? getCountryInfo(countryCode) : undefined;
+  const implications = Object.entries(article.implications || {});
+
+  // Sample votes behind a consensus analysis, e.g. "2 Bullish, 1 Bearish · 67% agreement across 3 samples"
+  const consensus = article.analysis?.consensus;
+  const consensusNote = consensus && `${Object.entries(consensus.votes).map(([label, n]) => `${n} ${label}`).join(', ')} · ${Math.round(consensus.agreement * 100)}% agreement across ${consensus.models.length} samples`;
+
   const sentiment = article.analysis?.overallSentiment;
   const sentimentStyle = {
     Bullish: { label: 'Bullish', color: 'text-emerald-400' },
@@ -584,10 +974,19 @@ const NewsCard = ({ article, index, isWatchlisted, isExpanded, onToggleExpand }:
 
   const hasMoreContent = (article.analysis?.summary && article.analysis.summary.length > 120 && !isLimitedAnalysis) ||
     (article.analysis?.sectors && article.analysis.sectors.length > 2) ||
-    article.analysis?.keyInsight;
+    article.analysis?.keyInsight ||
+    article.analysis?.causalChain?.length;
+
+  const outlets = outletCount(article);
+  const credibility = article.credibility || getStoryCredibility(article);
 
   // Get all unique tickers from sectors
   const allTickers = article.analysis?.sectors?.flatMap(s => s.tickers || []).filter((v, i, a) => a.indexOf(v) === i) || [];
+  const unverifiedTickers = article.analysis?.sectors?.flatMap(s => s.unverifiedTickers || [])
+    .filter((v, i, a) => a.indexOf(v) === i && !allTickers.includes(v)) || [];
+  // Analyses from before ticker verification carry no verification state
+  const tickersChecked = article.analysis?.sectors?.some(s => s.unverifiedTickers) || false;
+  const entities = article.entities || [];
 
   return (
     <article
@@ -610,6 +1009,33 @@ const NewsCard = ({ article, index, isWatchlisted, isExpanded, onToggleExpand }:
           <div className="flex items-center gap-2 text-xs text-slate-400 flex-wrap">
             {isWatchlisted && <span className="text-amber-400">★</span>}
             <span className="font-medium text-amber-500">{article.source}</span>
+            <span
+              className={`px-1.5 py-0.5 rounded ${TIER_STYLES[credibility.tier]}`}
+              title={`Source credibility weight: ${credibility.weight}×`}
+            >
+              {credibility.tier}
+            </span>
+            {outlets > 1 && (
+              <span
+                className="px-1.5 py-0.5 bg-slate-700/50 text-slate-300 rounded"
+                title={article.coveredBy?.map(c => c.source).join(', ')}
+              >
+                Covered by {outlets} outlets
+              </span>
+            )}
+            {article.originalTitle && article.language && (
+              <button
+                className="px-1.5 py-0.5 bg-blue-500/20 text-blue-300 rounded hover:bg-blue-500/30 transition-colors"
+                title={showOriginal ? 'Show English translation' : `Show original ${languageName(article.language)}`}
+                onClick={(e) => { e.stopPropagation(); setShowOriginal(prev => !prev); }}
+              >
+                {showOriginal ? article.language.toUpperCase() : `EN ← ${article.language.toUpperCase()}`}
+              </button>
+            )}
+            {country && <span title={article.subregion ? `${article.subregion}, ${article.region}` : article.region}>{country.country}</span>}
+            {article.eventType && article.eventType !== 'Other' && (
+              <span className="px-1.5 py-0.5 bg-indigo-500/20 text-indigo-300 rounded">{article.eventType}</span>
+            )}
             <span>•</span>
             <span>{timeAgo(article.publishedAt)}</span>
             <span>•</span>
@@ -621,7 +1047,26 @@ const NewsCard = ({ article, index, isWatchlisted, isExpanded, onToggleExpand }:
                 Limited
               </span>
             ) : (
-              <span className={sentimentStyle.color}>● {sentimentStyle.label}</span>
+              <span
+                className={sentimentStyle.color}
+                title={[
+                  article.analysis?.probability !== undefined && `${Math.round(article.analysis.probability * 100)}% likely to materialize`,
+                  consensusNote,
+                ].filter(Boolean).join(' · ') || undefined}
+              >
+                ● {sentimentStyle.label}
+                {article.analysis?.impactScore !== undefined && (
+                  <span className="font-mono ml-1">{article.analysis.impactScore > 0 ? '+' : ''}{article.analysis.impactScore.toFixed(2)}</span>
+                )}
+              </span>
+            )}
+            {consensus?.contested && (
+              <span
+                className="px-1.5 py-0.5 bg-orange-500/20 text-orange-300 rounded"
+                title={`Models disagree: ${consensusNote} (${consensus.models.join(', ')})`}
+              >
+                Contested
+              </span>
             )}
           </div>
           {hasMoreContent && (
@@ -643,8 +1088,10 @@ const NewsCard = ({ article, index, isWatchlisted, isExpanded, onToggleExpand }:
           rel="noopener noreferrer"
           className={`block font-serif text-lg font-semibold text-slate-100 hover:text-amber-400 transition-colors mb-2 ${expanded ? '' : 'line-clamp-2'}`}
           onClick={(e) => e.stopPropagation()}
+          lang={showOriginal ? article.language : 'en'}
+          dir="auto"
         >
-          {article.title}
+          {showOriginal && article.originalTitle ? article.originalTitle : article.title}
         </a>
 
         {/* Summary - Expandable */}
@@ -664,8 +1111,25 @@ const NewsCard = ({ article, index, isWatchlisted, isExpanded, onToggleExpand }:
           </div>
         )}
 
+        {/* Entities */}
+        {entities.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-3">
+            {(expanded ? entities : entities.slice(0, 4)).map(entity => (
+              <EntityChip
+                key={`${entity.type}:${entity.name}`}
+                entity={entity}
+                active={activeEntity ? sameEntity(entity, activeEntity) : false}
+                onSelect={onEntitySelect}
+              />
+            ))}
+            {!expanded && entities.length > 4 && (
+              <span className="px-2 py-0.5 text-xs text-slate-500">+{entities.length - 4} more</span>
+            )}
+          </div>
+        )}
+
         {/* Expanded Content */}
-        <div className={`overflow-hidden transition-all duration-300 ease-in-out ${expanded ? 'max-h-[500px] opacity-100' : 'max-h-0 opacity-0'}`}>
+        <div className={`overflow-hidden transition-all duration-300 ease-in-out ${expanded ? 'max-h-[1200px] opacity-100' : 'max-h-0 opacity-0'}`}>
           {/* Key Insight */}
           {article.analysis?.keyInsight && (
             <div className="text-xs bg-amber-500/10 border border-amber-500/20 rounded px-3 py-2 text-amber-300 mb-3">
@@ -673,38 +1137,65 @@ const NewsCard = ({ article, index, isWatchlisted, isExpanded, onToggleExpand }:
             </div>
           )}
 
+          {/* Causal Chain */}
+          {article.analysis?.causalChain && article.analysis.causalChain.length > 0 && (
+            <div className="mb-3">
+              <div className="text-xs text-slate-500 uppercase tracking-wider mb-1">Causal Chain</div>
+              <CausalChainFlow steps={article.analysis.causalChain} />
+            </div>
+          )}
+
           {/* All Tickers */}
-          {allTickers.length > 0 && (
+          {(allTickers.length > 0 || unverifiedTickers.length > 0) && (
             <div className="mb-3">
               <div className="text-xs text-slate-500 uppercase tracking-wider mb-1">Affected Tickers</div>
               <div className="flex flex-wrap gap-1">
                 {allTickers.map(ticker => (
-                  <span key={ticker} className="px-2 py-0.5 bg-slate-700/50 text-slate-300 text-xs font-mono rounded">
-                    {ticker}
-                  </span>
+                  <TickerChip key={ticker} ticker={ticker} verified={tickersChecked ? true : undefined} className="bg-slate-700/50 text-slate-300" />
+                ))}
+                {unverifiedTickers.map(ticker => (
+                  <TickerChip key={`unverified-${ticker}`} ticker={ticker} verified={false} className="bg-slate-700/50 text-slate-300" />
                 ))}
               </div>
             </div>
           )}
 
-          {/* Commodity Implications */}
-          {article.implications && (
-            <div className="grid grid-cols-2 gap-2 mb-3 text-xs">
-              <div className="flex justify-between px-2 py-1 bg-slate-700/30 rounded">
-                <span className="text-slate-500">Gold</span>
-                <span className={article.implications.gold === 'Bullish' ? 'text-emerald-400' : article.implications.gold === 'Bearish' ? 'text-red-400' : 'text-slate-400'}>
-                  {article.implications.gold}
-                </span>
-              </div>
-              <div className="flex justify-between px-2 py-1 bg-slate-700/30 rounded">
-                <span className="text-slate-500">Stocks</span>
-                <span className={article.implications.stockMarkets === 'Bullish' ? 'text-emerald-400' : article.implications.stockMarkets === 'Bearish' ? 'text-red-400' : 'text-slate-400'}>
-                  {article.implications.stockMarkets}
-                </span>
+          {/* Other outlets carrying the story */}
+          {article.coveredBy && article.coveredBy.length > 1 && (
+            <div className="mb-3">
+              <div className="text-xs text-slate-500 uppercase tracking-wider mb-1">Also Covered By</div>
+              <div className="flex flex-wrap gap-1">
+                {article.coveredBy.filter(c => c.url !== article.url).map(c => (
+                  <a
+                    key={c.url}
+                    href={c.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    title={c.title}
+                    onClick={(e) => e.stopPropagation()}
+                    className="px-2 py-0.5 bg-slate-700/50 text-slate-300 text-xs rounded hover:text-amber-400 transition-colors"
+                  >
+                    {c.source}
+                  </a>
+                ))}
               </div>
             </div>
           )}
 
+          {/* Asset Implications */}
+          {implications.length > 0 && (
+            <div className="grid grid-cols-2 gap-2 mb-3 text-xs">
+              {implications.map(([asset, label]) => (
+                <div key={asset} className="flex justify-between px-2 py-1 bg-slate-700/30 rounded">
+                  <span className="text-slate-500">{assetName(asset)}</span>
+                  <span className={label === 'Bullish' ? 'text-emerald-400' : label === 'Bearish' ? 'text-red-400' : 'text-slate-400'}>
+                    {label}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Show less button */}
           <button
             className="text-xs text-slate-500 hover:text-slate-400 font-medium"
@@ -735,9 +1226,11 @@ const NewsCard = ({ article, index, isWatchlisted, isExpanded, onToggleExpand }:
           </div>
         ) : (
           <div className="flex flex-wrap gap-2">
-            <span className={`px-2 py-1 text-xs rounded border ${article.implications.stockMarkets === 'Bullish' ? 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30' : article.implications.stockMarkets === 'Bearish' ? 'bg-red-500/20 text-red-400 border-red-500/30' : 'bg-slate-500/20 text-slate-400 border-slate-500/30'}`}>
-              Stocks: {article.implications.stockMarkets}
-            </span>
+            {implications.slice(0, 2).map(([asset, label]) => (
+              <span key={asset} className={`px-2 py-1 text-xs rounded border ${label === 'Bullish' ? 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30' : label === 'Bearish' ? 'bg-red-500/20 text-red-400 border-red-500/30' : 'bg-slate-500/20 text-slate-400 border-slate-500/30'}`}>
+                {assetName(asset)}: {label}
+              </span>
+            ))}
           </div>
         )}
       </div>
@@ -815,10 +1308,21 @@ export default function Home() {
   const [total, setTotal] = useState(0);
   const [lastScan, setLastScan] = useState<Date | null>(null);
   const [activeRegion, setActiveRegion] = useState<Region>('All');
+  const [activeCountry, setActiveCountry] = useState<string | null>(null); // ISO code, drilled down from activeRegion
   const [impactFilter, setImpactFilter] = useState<ImpactFilter>('All');
+  const [eventFilter, setEventFilter] = useState<EventFilter>('All');
+  const [sortBy, setSortBy] = useState<SortOption>('Latest');
   const [watchlistOnly, setWatchlistOnly] = useState(false);
   const [watchlist, setWatchlist] = useState<string[]>([]);
+  const [profiles, setProfiles] = useState<QueryProfile[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState('');
+  const [fullRescan, setFullRescan] = useState(false);
+  const [backfillFrom, setBackfillFrom] = useState('');
+  const [backfillTo, setBackfillTo] = useState('');
   const [sectorFilter, setSectorFilter] = useState<string | null>(null);
+  const [entityFilter, setEntityFilter] = useState<Entity | null>(null);
+  const [assets, setAssets] = useState<string[]>(DEFAULT_ASSET_IDS); // macro assets each analysis assesses
+  const [assetFilter, setAssetFilter] = useState<string | null>(null);
   const [summary, setSummary] = useState('');
   const [summaryLoading, setSummaryLoading] = useState(false);
   const [progress, setProgress] = useState('');
@@ -826,6 +1330,7 @@ export default function Home() {
   const [expandedCards, setExpandedCards] = useState<Set<string>>(new Set());
   const [allExpanded, setAllExpanded] = useState(false);
   const eventSourceRef = useRef<EventSource | null>(null);
+  const profileSaves = useRef(new Map<string, Promise<string>>()); // in-flight saves by profile id
 
   // Load watchlist on mount
   useEffect(() => {
@@ -841,6 +1346,22 @@ export default function Home() {
         setWatchlist(supabaseWatchlist);
         localStorage.setItem('watchlist', JSON.stringify(supabaseWatchlist));
       }
+      const savedAssets = localStorage.getItem('assets');
+      if (savedAssets) {
+        const resolved = resolveAssets(JSON.parse(savedAssets)).map(a => a.id);
+        if (resolved.length > 0) setAssets(resolved);
+      }
+      // Query profiles follow the same localStorage-then-Supabase pattern
+      const savedProfiles = localStorage.getItem('queryProfiles');
+      if (savedProfiles) {
+        setProfiles(JSON.parse(savedProfiles));
+      }
+      const supabaseProfiles = await getQueryProfiles();
+      if (supabaseProfiles.length > 0) {
+        const loaded = supabaseProfiles.map(p => ({ id: p.id!, name: p.name, queries: p.queries, enabled: p.enabled }));
+        setProfiles(loaded);
+        localStorage.setItem('queryProfiles', JSON.stringify(loaded));
+      }
     };
     loadData();
   }, []);
@@ -862,6 +1383,50 @@ export default function Home() {
     updateWatchlist(watchlist.filter(t => t !== ticker));
   };
 
+  const updateAssets = (newAssets: string[]) => {
+    setAssets(newAssets);
+    localStorage.setItem('assets', JSON.stringify(newAssets));
+  };
+
+  // Save query profiles
+  // Functional updates, so edits made while a save is in flight aren't overwritten
+  const updateProfiles = (update: (prev: QueryProfile[]) => QueryProfile[]) => {
+    setProfiles(prev => {
+      const next = update(prev);
+      localStorage.setItem('queryProfiles', JSON.stringify(next));
+      return next;
+    });
+  };
+
+  const saveProfile = (profile: QueryProfile) => {
+    const { id: profileId, ...fields } = profile;
+    updateProfiles(prev => prev.some(p => p.id === profileId)
+      ? prev.map(p => p.id === profileId ? profile : p)
+      : [...prev, profile]);
+
+    // Saves of one profile run in order, so a repeat save (or double click) upserts by the id
+    // the first one stored instead of inserting the profile twice
+    const previous = profileSaves.current.get(profileId) || Promise.resolve(profileId);
+    const save = previous.then(async id => {
+      const saved = await saveQueryProfile(id.startsWith('local-') ? fields : { ...fields, id });
+      if (!saved?.id || saved.id === id) return id;
+      // Local-only profiles get their Supabase id once stored
+      updateProfiles(prev => prev.map(p => p.id === id ? { ...p, id: saved.id! } : p));
+      setSelectedProfileId(prev => prev === id ? saved.id! : prev);
+      return saved.id;
+    });
+    profileSaves.current.set(profileId, save);
+    save.finally(() => {
+      if (profileSaves.current.get(profileId) === save) profileSaves.current.delete(profileId);
+    });
+  };
+
+  const removeProfile = async (id: string) => {
+    updateProfiles(prev => prev.filter(p => p.id !== id));
+    if (selectedProfileId === id) setSelectedProfileId('');
+    if (!id.startsWith('local-')) await deleteQueryProfile(id);
+  };
+
   // Generate summary
   const generateSummary = async (articles: AnalyzedArticle[]) => {
     setSummaryLoading(true);
@@ -909,7 +1474,24 @@ export default function Home() {
 
     const analyzedArticlesMap = new Map<string, AnalyzedArticle>();
 
-    const eventSource = new EventSource('/api/scan-stream');
+    // Stored profiles are looked up by id; local-only and merged enabled profiles are sent inline
+    const params = new URLSearchParams();
+    if (fullRescan) params.set('full', '1');
+    // Historical backfill over whole days (UTC)
+    if (backfillFrom) params.set('from', `${backfillFrom}T00:00:00Z`);
+    if (backfillTo) params.set('to', `${backfillTo}T23:59:59Z`);
+    params.set('assets', assets.join(','));
+    const selectedProfile = profiles.find(p => p.id === selectedProfileId);
+    if (selectedProfile && !selectedProfile.id.startsWith('local-')) {
+      params.set('profile', selectedProfile.id);
+    } else {
+      const scanProfiles = selectedProfile ? [selectedProfile] : profiles.filter(p => p.enabled);
+      if (scanProfiles.length > 0) {
+        params.set('queries', JSON.stringify(mergeQueries(...scanProfiles.map(p => p.queries))));
+      }
+    }
+
+    const eventSource = new EventSource(`/api/scan-stream${params.size ? `?${params}` : ''}`);
     eventSourceRef.current = eventSource;
 
     eventSource.addEventListener('status', (e) => {
@@ -927,7 +1509,7 @@ export default function Home() {
         ...a,
         pending: true,
         region: a.region || 'Americas',
-        implications: a.implications || { gold: 'Neutral', silver: 'Neutral', rareMinerals: 'Neutral', stockMarkets: 'Neutral' },
+        implications: a.implications || {},
       }));
       setPendingArticles(pending);
       setTotal(data.total);
@@ -1014,18 +1596,11 @@ export default function Home() {
       setData(grouped);
 
       // Calculate sentiments and save to Supabase
-      const overallSentiment = calculateSentiment(processedArticles);
-      const americasSentiment = calculateSentiment(processedArticles.filter(a => a.region === 'Americas'));
-      const europeSentiment = calculateSentiment(processedArticles.filter(a => a.region === 'Europe'));
-      const asiaSentiment = calculateSentiment(processedArticles.filter(a => ['Asia', 'Middle East', 'Africa'].includes(a.region)));
-
-      await saveScan({
-        total_articles: data.total,
-        sentiment_score: overallSentiment,
-        americas_sentiment: americasSentiment,
-        europe_sentiment: europeSentiment,
-        asia_sentiment: asiaSentiment,
-      });
+      await saveScan(buildScanRecord(processedArticles, data.total, {
+        from: data.window?.from ?? null,
+        to: data.window?.to ?? new Date().toISOString(),
+        historical: Boolean(data.window?.historical),
+      }));
 
       // Generate summary
       await generateSummary(processedArticles);
@@ -1052,20 +1627,37 @@ export default function Home() {
       setError('Connection lost');
       setProgress('');
     };
-  }, []);
+  }, [profiles, selectedProfileId, fullRescan, backfillFrom, backfillTo, assets]);
 
   // Filter articles
   const getFilteredArticles = (): AnalyzedArticle[] => {
     if (!data) return [];
     let articles = activeRegion === 'All' ? Object.values(data).flat() : data[activeRegion] || [];
 
+    if (activeCountry) {
+      articles = articles.filter(a => regionalCountry(a.countries, a.region) === activeCountry);
+    }
+
     if (impactFilter !== 'All') {
       articles = articles.filter(a =>
         a.analysis?.sectors?.some(s => s.impact === impactFilter) ||
-        Object.values(a.implications).some(i => i === impactFilter)
+        assets.some(asset => assetImplication(a.implications, asset) === impactFilter)
       );
     }
 
+    // Asset filter from the implications panel: stories expected to move the asset
+    if (assetFilter) {
+      articles = articles.filter(a => {
+        const label = assetImplication(a.implications, assetFilter);
+        return label !== undefined && label !== 'Neutral';
+      });
+    }
+
+    // Analyses from before event classification count as Other
+    if (eventFilter !== 'All') {
+      articles = articles.filter(a => (a.eventType || 'Other') === eventFilter);
+    }
+
     if (watchlistOnly && watchlist.length > 0) {
       articles = articles.filter(a => articleMentionsTicker(a, watchlist));
     }
@@ -1086,11 +1678,51 @@ export default function Home() {
       );
     }
 
+    if (entityFilter) {
+      articles = articles.filter(a => a.entities?.some(e => sameEntity(e, entityFilter)));
+    }
+
+    // Strongest expected impact first: |score| × probability × source credibility
+    if (sortBy === 'Impact') {
+      articles = [...articles].sort((a, b) => articleImpact(b) - articleImpact(a));
+    }
+
     return articles;
   };
 
   const filteredArticles = getFilteredArticles();
+
+  // Entities across all loaded articles, most mentioned first
+  const entityCounts = new Map<string, { entity: Entity; count: number }>();
+  for (const article of data ? Object.values(data).flat() : []) {
+    for (const entity of article.entities || []) {
+      const key = `${entity.type}:${entityKey(entity.name)}`;
+      const entry = entityCounts.get(key);
+      if (entry) entry.count++;
+      else entityCounts.set(key, { entity, count: 1 });
+    }
+  }
+  const entityOptions = Array.from(entityCounts.entries()).sort((a, b) => b[1].count - a[1].count || a[1].entity.name.localeCompare(b[1].entity.name));
+  const entityFilterKey = entityFilter ? `${entityFilter.type}:${entityKey(entityFilter.name)}` : '';
   const watchlistCount = data ? Object.values(data).flat().filter(a => articleMentionsTicker(a, watchlist)).length : 0;
+  const eventCounts = (data ? Object.values(data).flat() : []).reduce((acc, a) => {
+    const type = a.eventType || 'Other';
+    acc[type] = (acc[type] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+
+  // Country tabs for the active region, grouped by sub-region
+  const countryCounts = (activeRegion === 'All' || !data ? [] : data[activeRegion] || []).reduce((acc, a) => {
+    const code = regionalCountry(a.countries, a.region);
+    if (code) acc.set(code, (acc.get(code) || 0) + 1);
+    return acc;
+  }, new Map<string, number>());
+  const countryGroups = (SUBREGIONS[activeRegion] || []).map(subregion => ({
+    subregion,
+    countries: Array.from(countryCounts.entries())
+      .filter(([code]) => getCountryInfo(code)?.subregion === subregion)
+      .sort((a, b) => b[1] - a[1]),
+  })).filter(group => group.countries.length > 0);
 
   const copyReport = () => {
     navigator.clipboard.writeText(summary.replace(/\*\*/g, ''));
@@ -1114,7 +1746,7 @@ export default function Home() {
           </div>
 
           <div className="flex flex-col sm:flex-row items-start gap-4">
-            <div className="flex items-center gap-3">
+            <div className="flex flex-wrap items-center gap-3">
               <button
                 onClick={scanNews}
                 disabled={loading}
@@ -1130,6 +1762,37 @@ export default function Home() {
                 )}
               </button>
 
+              {!loading && (
+                <label className="flex items-center gap-2 text-sm text-slate-400 cursor-pointer" title="Re-analyze every article instead of reusing earlier analyses">
+                  <input type="checkbox" checked={fullRescan} onChange={e => setFullRescan(e.target.checked)} className="rounded bg-slate-700 border-slate-600 text-amber-500 focus:ring-amber-500" />
+                  Full rescan
+                </label>
+              )}
+
+              {!loading && (
+                <div className="flex items-center gap-2 text-sm text-slate-400" title="Scan a past window instead of the latest news">
+                  <span>Backfill</span>
+                  <input
+                    type="date"
+                    value={backfillFrom}
+                    max={backfillTo || undefined}
+                    onChange={e => setBackfillFrom(e.target.value)}
+                    className="bg-slate-800/50 border border-slate-700/50 rounded-lg px-2 py-1 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+                  />
+                  <span>–</span>
+                  <input
+                    type="date"
+                    value={backfillTo}
+                    min={backfillFrom || undefined}
+                    onChange={e => setBackfillTo(e.target.value)}
+                    className="bg-slate-800/50 border border-slate-700/50 rounded-lg px-2 py-1 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+                  />
+                  {(backfillFrom || backfillTo) && (
+                    <button onClick={() => { setBackfillFrom(''); setBackfillTo(''); }} className="hover:text-red-400 transition-colors">&times;</button>
+                  )}
+                </div>
+              )}
+
               {loading && (
                 <button
                   onClick={stopScan}
@@ -1175,12 +1838,30 @@ export default function Home() {
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
         {/* Watchlist and Sector Heatmap Row */}
         <div className="grid gap-6 lg:grid-cols-2">
-          <Watchlist watchlist={watchlist} onAdd={addToWatchlist} onRemove={removeFromWatchlist} />
-          <SectorHeatmap
-            articles={allArticles}
-            selectedSector={sectorFilter}
-            onSectorClick={setSectorFilter}
-          />
+          <div className="space-y-6">
+            <Watchlist watchlist={watchlist} onAdd={addToWatchlist} onRemove={removeFromWatchlist} />
+            <QueryProfiles
+              profiles={profiles}
+              selectedId={selectedProfileId}
+              onSelect={setSelectedProfileId}
+              onSave={saveProfile}
+              onDelete={removeProfile}
+            />
+          </div>
+          <div className="space-y-6">
+            <SectorHeatmap
+              articles={allArticles}
+              selectedSector={sectorFilter}
+              onSectorClick={setSectorFilter}
+            />
+            <AssetPanel
+              articles={allArticles}
+              assets={assets}
+              selectedAsset={assetFilter}
+              onAssetClick={setAssetFilter}
+              onAssetsChange={updateAssets}
+            />
+          </div>
         </div>
 
         {/* Summary Report */}
@@ -1202,6 +1883,8 @@ export default function Home() {
                   index={idx}
                   isWatchlisted={articleMentionsTicker(article, watchlist)}
                   isExpanded={expandedCards.has(cardId)}
+                  activeEntity={entityFilter}
+                  onEntitySelect={setEntityFilter}
                   onToggleExpand={() => {
                     setExpandedCards(prev => {
                       const next = new Set(prev);
@@ -1231,16 +1914,37 @@ export default function Home() {
           <>
             {/* Filters */}
             <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
-              <div className="flex flex-wrap gap-2">
-                {REGIONS.map(region => (
-                  <button
-                    key={region}
-                    onClick={() => setActiveRegion(region)}
-                    className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-all ${activeRegion === region ? 'bg-amber-500 text-slate-900' : 'bg-slate-800/50 text-slate-400 hover:bg-slate-700/50 border border-slate-700/50'}`}
-                  >
-                    {region} ({region === 'All' ? total : data[region]?.length || 0})
-                  </button>
-                ))}
+              <div className="flex flex-col gap-2">
+                <div className="flex flex-wrap gap-2">
+                  {REGIONS.map(region => (
+                    <button
+                      key={region}
+                      onClick={() => { setActiveRegion(region); setActiveCountry(null); }}
+                      className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-all ${activeRegion === region ? 'bg-amber-500 text-slate-900' : 'bg-slate-800/50 text-slate-400 hover:bg-slate-700/50 border border-slate-700/50'}`}
+                    >
+                      {region} ({region === 'All' ? total : data[region]?.length || 0})
+                    </button>
+                  ))}
+                </div>
+                {/* Country drill-down within the active region */}
+                {countryGroups.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs">
+                    {countryGroups.map(({ subregion, countries }) => (
+                      <div key={subregion} className="flex flex-wrap items-center gap-1.5">
+                        <span className="text-slate-500">{subregion}</span>
+                        {countries.map(([code, count]) => (
+                          <button
+                            key={code}
+                            onClick={() => setActiveCountry(activeCountry === code ? null : code)}
+                            className={`px-2 py-1 rounded-md transition-all ${activeCountry === code ? 'bg-amber-500/80 text-slate-900' : 'bg-slate-800/50 text-slate-400 hover:bg-slate-700/50 border border-slate-700/50'}`}
+                          >
+                            {getCountryInfo(code)?.country || code} ({count})
+                          </button>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
               <div className="flex items-center gap-3 flex-wrap">
                 {/* Sector filter badge */}
@@ -1253,6 +1957,21 @@ export default function Home() {
                     <button onClick={() => setSectorFilter(null)} className="hover:text-amber-200">×</button>
                   </span>
                 )}
+                {/* Asset filter badge */}
+                {assetFilter && (
+                  <span className="flex items-center gap-2 px-3 py-1.5 bg-amber-500/20 text-amber-400 rounded-lg text-sm border border-amber-500/30">
+                    {assetName(assetFilter)}
+                    <button onClick={() => setAssetFilter(null)} className="hover:text-amber-200">×</button>
+                  </span>
+                )}
+                {/* Entity filter badge */}
+                {entityFilter && (
+                  <span className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm border ${ENTITY_STYLES[entityFilter.type] || ENTITY_STYLES.institution}`}>
+                    <span className="text-xs opacity-70">{ENTITY_TYPE_LABELS[entityFilter.type]}</span>
+                    {entityFilter.name}
+                    <button onClick={() => setEntityFilter(null)} className="hover:brightness-150">×</button>
+                  </span>
+                )}
                 {/* Expand/Collapse All */}
                 <button
                   onClick={() => {
@@ -1278,9 +1997,29 @@ export default function Home() {
                     Watchlist Only ({watchlistCount})
                   </label>
                 )}
+                <select value={eventFilter} onChange={e => setEventFilter(e.target.value as EventFilter)} className="bg-slate-800/50 border border-slate-700/50 rounded-lg px-3 py-1.5 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-amber-500/50">
+                  {EVENT_FILTERS.filter(f => f === 'All' || eventCounts[f] || f === eventFilter).map(f => (
+                    <option key={f} value={f}>{f === 'All' ? 'All events' : `${f} (${eventCounts[f] || 0})`}</option>
+                  ))}
+                </select>
                 <select value={impactFilter} onChange={e => setImpactFilter(e.target.value as ImpactFilter)} className="bg-slate-800/50 border border-slate-700/50 rounded-lg px-3 py-1.5 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-amber-500/50">
                   {IMPACT_FILTERS.map(f => <option key={f} value={f}>{f}</option>)}
                 </select>
+                {entityOptions.length > 0 && (
+                  <select
+                    value={entityFilterKey}
+                    onChange={e => setEntityFilter(entityCounts.get(e.target.value)?.entity || null)}
+                    className="max-w-[14rem] bg-slate-800/50 border border-slate-700/50 rounded-lg px-3 py-1.5 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+                  >
+                    <option value="">All entities</option>
+                    {entityOptions.map(([key, { entity, count }]) => (
+                      <option key={key} value={key}>{entity.name} ({count})</option>
+                    ))}
+                  </select>
+                )}
+                <select value={sortBy} onChange={e => setSortBy(e.target.value as SortOption)} className="bg-slate-800/50 border border-slate-700/50 rounded-lg px-3 py-1.5 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-amber-500/50">
+                  {SORT_OPTIONS.map(o => <option key={o} value={o}>Sort: {o}</option>)}
+                </select>
               </div>
             </div>
 
@@ -1296,6 +2035,8 @@ export default function Home() {
                       index={idx}
                       isWatchlisted={articleMentionsTicker(article, watchlist)}
                       isExpanded={expandedCards.has(cardId)}
+                      activeEntity={entityFilter}
+                      onEntitySelect={setEntityFilter}
                       onToggleExpand={() => {
                         setExpandedCards(prev => {
                           const next = new Set(prev);
@@ -1314,7 +2055,7 @@ export default function Home() {
             ) : (
               <div className="text-center py-12 text-slate-500">
                 <p>No articles match your filters</p>
-                <button onClick={() => { setActiveRegion('All'); setImpactFilter('All'); setWatchlistOnly(false); setSectorFilter(null); }} className="mt-2 text-amber-500 hover:text-amber-400">Clear filters</button>
+                <button onClick={() => { setActiveRegion('All'); setActiveCountry(null); setImpactFilter('All'); setEventFilter('All'); setWatchlistOnly(false); setSectorFilter(null); setAssetFilter(null); setEntityFilter(null); }} className="mt-2 text-amber-500 hover:text-amber-400">Clear filters</button>
               </div>
             )}
           </>
@@ -0,0 +1,121 @@
+import { getStoryCredibility, type SourceCredibility } from './credibility';
+import { SUBREGIONS, regionalCountry } from './gazetteer';
+import type { BreakdownAggregate, ScanRecord } from './supabase';
+
+// The fields aggregation needs - satisfied by both server and client article shapes
+export interface WeightedArticle {
+  source: string;
+  url?: string;
+  region: string;
+  countries?: string[];
+  eventType?: string;
+  coveredBy?: { source: string; url: string }[];
+  credibility?: SourceCredibility;
+  analysis?: { overallSentiment?: string; impactScore?: number; probability?: number };
+}
+
+// Scores for analyses stored before numeric scores existed: labels count as full +1/-1
+const LABEL_SCORES: Record<string, number> = { Bullish: 1, Bearish: -1 };
+const CONFIDENCE_PROBABILITIES: Record<string, number> = { High: 0.8, Medium: 0.6, Low: 0.4 };
+
+export interface ScoredSector {
+  impact: string;
+  confidence?: string;
+  score?: number;
+  probability?: number;
+}
+
+export function labelScore(label?: string): number {
+  return LABEL_SCORES[label || ''] ?? 0;
+}
+
+export function confidenceProbability(confidence?: string): number {
+  return CONFIDENCE_PROBABILITIES[confidence || ''] ?? 0.6;
+}
+
+export function sectorScore(sector: ScoredSector): number {
+  return sector.score ?? labelScore(sector.impact);
+}
+
+export function sectorProbability(sector: ScoredSector): number {
+  return sector.probability ?? confidenceProbability(sector.confidence);
+}
+
+export function articleScore(article: WeightedArticle): number {
+  return article.analysis?.impactScore ?? labelScore(article.analysis?.overallSentiment);
+}
+
+export function articleProbability(article: WeightedArticle): number {
+  return article.analysis?.probability ?? 1;
+}
+
+// Expected impact of an article - used to rank stories
+export function articleImpact(article: WeightedArticle): number {
+  return Math.abs(articleScore(article)) * articleProbability(article) * articleWeight(article);
+}
+
+// Credibility weight of an article's source (rated server-side, recomputed for older payloads)
+export function articleWeight(article: WeightedArticle): number {
+  return (article.credibility || getStoryCredibility(article)).weight;
+}
+
+// Sentiment score from -100 to 100: the average impact score weighted by credibility and probability
+export function calculateSentiment(articles: WeightedArticle[]): number {
+  let score = 0;
+  let totalWeight = 0;
+  articles.forEach(a => {
+    const weight = articleWeight(a) * articleProbability(a);
+    totalWeight += weight;
+    score += weight * articleScore(a);
+  });
+  return totalWeight ? Math.round((score / totalWeight) * 100) : 0;
+}
+
+// Article count and sentiment per event type; analyses from before classification count as Other
+export function eventBreakdown(articles: WeightedArticle[]): Record<string, BreakdownAggregate> {
+  return breakdown(articles, a => a.eventType || 'Other');
+}
+
+// Article count and sentiment per region - every region appears, with zero articles if need be
+export function regionBreakdown(articles: WeightedArticle[]): Record<string, BreakdownAggregate> {
+  const empty = Object.fromEntries(Object.keys(SUBREGIONS).map(region => [region, { articles: 0, sentiment: 0 }]));
+  return { ...empty, ...breakdown(articles, a => a.region) };
+}
+
+// Article count and sentiment per ISO country code, each article under the country it files under
+export function countryBreakdown(articles: WeightedArticle[]): Record<string, BreakdownAggregate> {
+  return breakdown(articles, a => regionalCountry(a.countries, a.region));
+}
+
+function breakdown(
+  articles: WeightedArticle[],
+  keyOf: (article: WeightedArticle) => string | undefined
+): Record<string, BreakdownAggregate> {
+  const groups = new Map<string, WeightedArticle[]>();
+  for (const article of articles) {
+    const key = keyOf(article);
+    if (key) groups.set(key, [...(groups.get(key) || []), article]);
+  }
+  return Object.fromEntries(Array.from(groups.entries()).map(([key, group]) => [
+    key,
+    { articles: group.length, sentiment: calculateSentiment(group) },
+  ]));
+}
+
+// Scan history row for a finished scan
+export function buildScanRecord(
+  articles: WeightedArticle[],
+  total: number,
+  window: { from: string | null; to: string; historical: boolean }
+): Omit<ScanRecord, 'id' | 'created_at'> {
+  return {
+    total_articles: total,
+    sentiment_score: calculateSentiment(articles),
+    region_breakdown: regionBreakdown(articles),
+    country_breakdown: countryBreakdown(articles),
+    event_breakdown: eventBreakdown(articles),
+    window_start: window.from,
+    window_end: window.to,
+    backfill: window.historical,
+  };
+}
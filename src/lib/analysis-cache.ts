@@ -0,0 +1,151 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import type { AnalyzedArticle, Article } from './types';
+import { supabase } from './supabase';
+
+type AnalysisFields = Pick<AnalyzedArticle, 'region' | 'analysis' | 'implications' | 'entities' | 'eventType' | 'countries' | 'subregion' | 'promptVersion'>;
+
+export type CachedAnalysis = AnalysisFields & {
+  translation?: { title: string; description: string }; // English title and description of a foreign article
+};
+
+const LOCAL_CACHE_PATH = path.resolve(process.cwd(), process.env.ANALYSIS_CACHE_PATH || '.cache/analysis-cache.json');
+
+// Local store used without Supabase, loaded from disk once on first use
+let localCache: Promise<Map<string, CachedAnalysis>> | null = null;
+// Concurrent batches cache at the same time; writes queue up so they never interleave on disk
+let pendingWrite: Promise<void> = Promise.resolve();
+
+const cacheKey = (id: string, promptVersion: string) => `${promptVersion}:${id}`;
+
+function loadLocalCache(): Promise<Map<string, CachedAnalysis>> {
+  localCache ??= readFile(LOCAL_CACHE_PATH, 'utf8')
+    .then(content => new Map<string, CachedAnalysis>(Object.entries(JSON.parse(content))))
+    .catch(err => {
+      // A missing file just means nothing is cached yet; anything else is worth knowing about
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') console.error('Error reading analysis cache:', err);
+      return new Map<string, CachedAnalysis>();
+    });
+  return localCache;
+}
+
+// Write to a temporary file and rename it into place, so a crash mid-write never leaves a torn cache
+function persistLocalCache(cache: Map<string, CachedAnalysis>): Promise<void> {
+  pendingWrite = pendingWrite.then(async () => {
+    const tempPath = `${LOCAL_CACHE_PATH}.${process.pid}.tmp`;
+    try {
+      await mkdir(path.dirname(LOCAL_CACHE_PATH), { recursive: true });
+      await writeFile(tempPath, JSON.stringify(Object.fromEntries(cache)));
+      await rename(tempPath, LOCAL_CACHE_PATH);
+    } catch (err) {
+      // Read-only filesystems (e.g. serverless) still get the in-memory cache
+      console.error('Error writing analysis cache:', err);
+    }
+  });
+  return pendingWrite;
+}
+
+// Look up cached analyses by article content hash for a prompt version
+export async function getCachedAnalyses(ids: string[], promptVersion: string): Promise<Map<string, CachedAnalysis>> {
+  const found = new Map<string, CachedAnalysis>();
+  if (ids.length === 0) return found;
+
+  if (!supabase) {
+    const cache = await loadLocalCache();
+    for (const id of ids) {
+      const entry = cache.get(cacheKey(id, promptVersion));
+      if (entry) found.set(id, { ...entry, promptVersion });
+    }
+    return found;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('analysis_cache')
+      .select('content_hash, region, analysis, implications, entities, event_type, countries, subregion, translation')
+      .eq('prompt_version', promptVersion)
+      .in('content_hash', ids);
+
+    if (error) {
+      console.error('Error fetching cached analyses:', error);
+      return found;
+    }
+    for (const record of data || []) {
+      found.set(record.content_hash, {
+        region: record.region,
+        analysis: record.analysis,
+        implications: record.implications,
+        entities: record.entities ?? undefined,
+        eventType: record.event_type ?? undefined,
+        countries: record.countries ?? undefined,
+        subregion: record.subregion ?? undefined,
+        translation: record.translation ?? undefined,
+        promptVersion,
+      });
+    }
+  } catch (err) {
+    console.error('Error fetching cached analyses:', err);
+  }
+  return found;
+}
+
+// An article with a cached analysis applied. Translated articles get the cached English title and
+// description, so a cache hit never needs a fresh translation.
+export function withCachedAnalysis<T extends Article>(article: T, cached: CachedAnalysis): T & CachedAnalysis {
+  const { translation, ...analysis } = cached;
+  if (!translation || article.originalTitle) return { ...article, ...analysis };
+  return {
+    ...article,
+    ...analysis,
+    title: translation.title,
+    description: translation.description || article.description,
+    originalTitle: article.title,
+    originalDescription: article.description,
+  };
+}
+
+// Cache analyses under their article content hash and prompt version, with the translation if any
+export async function cacheAnalyses(
+  articles: (AnalysisFields & Pick<AnalyzedArticle, 'id' | 'title' | 'description' | 'originalTitle'>)[],
+  promptVersion: string
+): Promise<boolean> {
+  if (articles.length === 0) return true;
+
+  if (!supabase) {
+    const cache = await loadLocalCache();
+    for (const { id, region, analysis, implications, entities, eventType, countries, subregion, ...article } of articles) {
+      const translation = article.originalTitle ? { title: article.title, description: article.description } : undefined;
+      cache.set(cacheKey(id, promptVersion), { region, analysis, implications, entities, eventType, countries, subregion, translation });
+    }
+    await persistLocalCache(cache);
+    return true;
+  }
+
+  try {
+    const { error } = await supabase
+      .from('analysis_cache')
+      .upsert(articles.map(({ id, region, analysis, implications, entities, eventType, countries, subregion, ...article }) => ({
+        content_hash: id,
+        prompt_version: promptVersion,
+        region,
+        analysis,
+        implications,
+        entities: entities ?? null,
+        event_type: eventType ?? null,
+        countries: countries ?? null,
+        subregion: subregion ?? null,
+        translation: article.originalTitle ? { title: article.title, description: article.description } : null,
+      })), {
+        onConflict: 'content_hash,prompt_version',
+      });
+
+    if (error) {
+      console.error('Error caching analyses:', error);
+      return false;
+    }
+    return true;
+  } catch (err) {
+    console.error('Error caching analyses:', err);
+    return false;
+  }
+}
@@ -0,0 +1,160 @@
+import type { AnalyzedArticle } from './types';
+import { supabase } from './supabase';
+
+const MEMORY_STORE_LIMIT = 5000; // least recently stored analyses are evicted past this
+
+// In-process fallback when Supabase is not configured - survives between scans on a long-running server
+const memoryStore = new Map<string, { article: AnalyzedArticle; analyzedAt: string; scope: string }>();
+const memoryWatermarks = new Map<string, string>();
+
+// Look up previously analyzed articles by URL. Analyses made with another prompt version count as
+// unseen, so prompt changes are picked up instead of serving the old output forever.
+export async function getStoredAnalyses(urls: string[], promptVersion: string): Promise<Map<string, AnalyzedArticle>> {
+  const found = new Map<string, AnalyzedArticle>();
+  if (urls.length === 0) return found;
+
+  if (!supabase) {
+    for (const url of urls) {
+      const entry = memoryStore.get(url);
+      if (entry?.article.promptVersion === promptVersion) found.set(url, entry.article);
+    }
+    return found;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('article_analyses')
+      .select('url, article')
+      .eq('prompt_version', promptVersion)
+      .in('url', urls);
+
+    if (error) {
+      console.error('Error fetching stored analyses:', error);
+      return found;
+    }
+    for (const record of data || []) {
+      found.set(record.url, record.article);
+    }
+  } catch (err) {
+    console.error('Error fetching stored analyses:', err);
+  }
+  return found;
+}
+
+// Most recently analyzed articles of a scan scope for a prompt version, newest first. Other profiles,
+// sources and languages keep their stories out of this scope's results.
+export async function getRecentAnalyses(promptVersion: string, scope: string, limit = 100, since?: string): Promise<AnalyzedArticle[]> {
+  if (!supabase) {
+    return Array.from(memoryStore.values())
+      .filter(entry => entry.scope === scope)
+      .map(entry => entry.article)
+      .filter(article => article.promptVersion === promptVersion)
+      .filter(article => !since || article.publishedAt >= since)
+      .sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime())
+      .slice(0, limit);
+  }
+
+  try {
+    let query = supabase
+      .from('article_analyses')
+      .select('article')
+      .eq('prompt_version', promptVersion)
+      .eq('scan_scope', scope)
+      .order('published_at', { ascending: false })
+      .limit(limit);
+    if (since) query = query.gte('published_at', since);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('Error fetching recent analyses:', error);
+      return [];
+    }
+    return (data || []).map(record => record.article);
+  } catch (err) {
+    console.error('Error fetching recent analyses:', err);
+    return [];
+  }
+}
+
+// When a scan of this scope (queries, sources and languages) last completed - the starting point
+// for its incremental fetches. Null for a scope never scanned, which then fetches everything.
+export async function getScanWatermark(scope: string): Promise<string | null> {
+  if (!supabase) return memoryWatermarks.get(scope) || null;
+
+  try {
+    const { data, error } = await supabase
+      .from('scan_watermarks')
+      .select('scanned_at')
+      .eq('scope', scope)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching scan watermark:', error);
+      return null;
+    }
+    return data?.scanned_at || null;
+  } catch (err) {
+    console.error('Error fetching scan watermark:', err);
+    return null;
+  }
+}
+
+// Record that a scan of this scope fetched everything published up to `scannedAt`
+export async function setScanWatermark(scope: string, scannedAt: string): Promise<void> {
+  if (!supabase) {
+    memoryWatermarks.set(scope, scannedAt);
+    return;
+  }
+
+  try {
+    const { error } = await supabase
+      .from('scan_watermarks')
+      .upsert({ scope, scanned_at: scannedAt }, { onConflict: 'scope' });
+    if (error) console.error('Error storing scan watermark:', error);
+  } catch (err) {
+    console.error('Error storing scan watermark:', err);
+  }
+}
+
+// Persist analyses so later scans can reuse them, under the scope of the scan that analyzed them
+export async function storeAnalyses(articles: AnalyzedArticle[], scope: string): Promise<boolean> {
+  if (articles.length === 0) return true;
+  const analyzedAt = new Date().toISOString();
+
+  if (!supabase) {
+    for (const article of articles) {
+      memoryStore.delete(article.url);
+      memoryStore.set(article.url, { article, analyzedAt, scope });
+    }
+    // Maps keep insertion order, so the first keys are the least recently stored
+    for (const url of memoryStore.keys()) {
+      if (memoryStore.size <= MEMORY_STORE_LIMIT) break;
+      memoryStore.delete(url);
+    }
+    return true;
+  }
+
+  try {
+    const { error } = await supabase
+      .from('article_analyses')
+      .upsert(articles.map(article => ({
+        url: article.url,
+        article,
+        published_at: article.publishedAt,
+        analyzed_at: analyzedAt,
+        prompt_version: article.promptVersion ?? null,
+        scan_scope: scope,
+      })), {
+        onConflict: 'url',
+      });
+
+    if (error) {
+      console.error('Error storing analyses:', error);
+      return false;
+    }
+    return true;
+  } catch (err) {
+    console.error('Error storing analyses:', err);
+    return false;
+  }
+}
@@ -0,0 +1,266 @@
+import type { AnalyzedArticle, Article, SectorImpact } from './types';
+import type { LlmClient } from './llm';
+import { PROMPTS, promptVersion, runPrompt } from './prompts';
+import { validateAnalysis, validationOutcome, type AnalysisValidation } from './validation';
+import { verifySectorTickers, verifyTickers } from './tickers';
+import { detectKnownEntities } from './entities';
+import { classifyEventType } from './events';
+import { inferSectors, scoreSentiment, type TextSentiment } from './sentiment';
+import { getConfiguredAssets, type MacroAsset } from './assets';
+import { detectCountries, primaryCountry, type CountryDetection, type CountryMention } from './gazetteer';
+
+export const PROMPT_VERSION = promptVersion(PROMPTS.analysis);
+
+// Stored with every analysis and used as the cache key, so prompt revisions never share results:
+// the prompt version plus the assessed assets, e.g. "analysis@v7:gold,oil", and for consensus analyses
+// the models that voted, e.g. ":gemini/gemini-2.0-flash+openai/gpt-4o-mini"
+export function analysisVersion(assets: MacroAsset[], consensus: LlmClient[] = []): string {
+  const models = consensus.length > 1 ? `:${consensus.map(c => `${c.name}/${c.model}`).join('+')}` : '';
+  return `${PROMPT_VERSION}:${assets.map(a => a.id).join(',')}${models}`;
+}
+
+export const ANALYSIS_UNAVAILABLE = 'AI analysis unavailable';
+export const ANALYSIS_INCOMPLETE = 'Analysis incomplete';
+
+// Region for stories that name no country - the default feeds are mostly US news
+const DEFAULT_REGION = 'Americas';
+
+const FALLBACK_PROBABILITY = 0.3;
+const FALLBACK_MAX_PROBABILITY = 0.5;
+const LABEL_THRESHOLD = 0.2; // |score| needed for a Bullish/Bearish label
+const MIXED_THRESHOLD = 0.35;
+
+// Fallback analyses should be retried on the next scan rather than stored
+export function isFallbackAnalysis(article: AnalyzedArticle): boolean {
+  return article.analysis.summary === ANALYSIS_UNAVAILABLE || article.analysis.summary === ANALYSIS_INCOMPLETE;
+}
+
+// Unvalidated item from the model's `analyses` array
+type RawAnalysis = { articleNum?: number } | null;
+
+// An analysis together with how it fared against the schema
+export interface ValidatedArticle {
+  article: AnalyzedArticle;
+  validation: AnalysisValidation;
+}
+
+export async function analyzeBatch(
+  articles: Article[],
+  excerpts: string[],
+  llm: LlmClient,
+  assets: MacroAsset[]
+): Promise<ValidatedArticle[]> {
+  const text = await runPrompt(llm, PROMPTS.analysis, { articles, excerpts, assets });
+  const analyses = parseAnalyses(text);
+
+  // Countries named in each story fill in missing regions and cross-check the model's
+  const mentions = articles.map(a => detectCountries(a.title, a.description));
+  const detections = mentions.map(primaryCountry);
+
+  // Map analyses back to articles by order
+  const results = articles.map((_, i) => validateAnalysis(
+    findAnalysis(analyses, i),
+    detections[i]?.region || DEFAULT_REGION,
+    assets
+  ));
+
+  // Give malformed items one repair attempt
+  const broken = articles.map((_, i) => i).filter(i => !results[i].value);
+  const repaired = new Set<number>();
+  if (broken.length > 0) {
+    try {
+      const repairs = await repairAnalyses(
+        broken.map(i => ({ article: articles[i], raw: findAnalysis(analyses, i), errors: results[i].errors })),
+        llm,
+        assets
+      );
+      broken.forEach((index, j) => {
+        const result = validateAnalysis(repairs[j], detections[index]?.region || DEFAULT_REGION, assets);
+        if (result.value) {
+          results[index] = result;
+          repaired.add(index);
+        }
+      });
+    } catch (err) {
+      console.error('Analysis repair failed:', err);
+    }
+  }
+
+  // Check tickers against the symbol universe: remap aliases, flag the ones that don't exist
+  await Promise.all(results.map(async result => {
+    if (!result.value) return;
+    const { sectors, notes } = await verifySectorTickers(result.value.analysis.sectors);
+    result.value.analysis.sectors = sectors;
+    result.fixes.push(...notes);
+
+    const chain = result.value.analysis.causalChain;
+    if (!chain) return;
+    result.value.analysis.causalChain = await Promise.all(chain.map(async (step, i) => {
+      if (!step.tickers?.length) return step;
+      const verified = await verifyTickers(step.tickers, `causalChain[${i}]`);
+      result.fixes.push(...verified.notes);
+      return { ...step, tickers: verified.tickers, unverifiedTickers: verified.unverifiedTickers };
+    }));
+  }));
+
+  results.forEach((result, i) => {
+    if (result.value) crossCheckRegion(result.value, detections[i], result.fixes);
+  });
+
+  return articles.map((article, i) => {
+    const validation = validationOutcome(results[i], repaired.has(i));
+    const value = results[i].value;
+    if (value) {
+      return { article: { ...article, ...value, ...countryFields(mentions[i], value.region), promptVersion: analysisVersion(assets) }, validation };
+    }
+
+    // Still invalid after repair - fall back rather than pass bad values to the UI
+    console.warn(`Analysis for "${article.title}" failed validation:`, validation.issues.join('; '));
+    return { article: createFallbackAnalysis(article, ANALYSIS_INCOMPLETE, assets), validation };
+  });
+}
+
+// A country named in the headline and dominating the story overrules the model's region;
+// weaker disagreements are only noted
+function crossCheckRegion(value: { region: string }, detection: CountryDetection | null, fixes: string[]): void {
+  if (!detection || detection.region === value.region) return;
+  if (detection.confident) {
+    fixes.push(`region ${value.region} contradicts ${detection.country} in the headline, corrected to ${detection.region}`);
+    value.region = detection.region;
+  } else {
+    fixes.push(`region ${value.region} differs from the most mentioned country, ${detection.country} (${detection.region})`);
+  }
+}
+
+// ISO codes of every mentioned country, and the sub-region of the first one inside the article's region
+function countryFields(mentions: CountryMention[], region: string): Pick<AnalyzedArticle, 'countries' | 'subregion'> {
+  if (mentions.length === 0) return {};
+  return {
+    countries: mentions.map(m => m.code),
+    subregion: mentions.find(m => m.region === region)?.subregion,
+  };
+}
+
+// Re-prompt for items that failed validation, telling the model exactly what was wrong
+async function repairAnalyses(
+  items: { article: Article; raw: unknown; errors: string[] }[],
+  llm: LlmClient,
+  assets: MacroAsset[]
+): Promise<unknown[]> {
+  const text = await runPrompt(llm, PROMPTS.analysisRepair, { items, assets });
+  const analyses = parseAnalyses(text);
+  return items.map((_, i) => findAnalysis(analyses, i));
+}
+
+// Pull the `analyses` array out of a raw LLM response
+function parseAnalyses(text: string): RawAnalysis[] {
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    console.error('No JSON in LLM response:', text.substring(0, 500));
+    throw new Error('No JSON in response');
+  }
+
+  let parsed;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch (parseErr) {
+    console.error('JSON parse error:', parseErr, 'Text:', jsonMatch[0].substring(0, 500));
+    throw new Error('Failed to parse JSON response');
+  }
+
+  if (!parsed.analyses || !Array.isArray(parsed.analyses)) {
+    console.error('Invalid response structure:', parsed);
+    throw new Error('Invalid response structure');
+  }
+  return parsed.analyses;
+}
+
+// Find by 1-indexed articleNum first, then fall back to array position
+function findAnalysis(analyses: RawAnalysis[], i: number): RawAnalysis | undefined {
+  return analyses.find(a => a?.articleNum === i + 1) || analyses[i];
+}
+
+// Offline analysis when the LLM is unavailable: lexicon sentiment with negation and intensifiers,
+// sectors from sector cues and named companies
+export function createFallbackAnalysis(article: Article, reason: string, assets = getConfiguredAssets()): AnalyzedArticle {
+  const text = `${article.title} ${article.description || ''}`;
+  const mentions = detectCountries(article.title, article.description);
+  const region = primaryCountry(mentions)?.region || DEFAULT_REGION;
+  const sentiment = scoreSentiment(article.title, article.description);
+  const overallSentiment = sentimentLabel(sentiment);
+
+  // Lexicon matches are weaker evidence than a model's reading, so probabilities stay low
+  const probability = Math.round(Math.min(FALLBACK_PROBABILITY + 0.05 * sentiment.hits.length, FALLBACK_MAX_PROBABILITY) * 100) / 100;
+
+  const sectors: SectorImpact[] = inferSectors(article.title, article.description).slice(0, 4).map(signal => ({
+    sector: signal.sector,
+    impact: scoreImpact(signal.score),
+    reasoning: `Offline analysis - mentions ${signal.terms.length > 0 ? signal.terms.join(', ') : signal.tickers.join(', ')}`,
+    tickers: signal.tickers,
+    timeframe: 'Short-term',
+    confidence: 'Low',
+    score: signal.score,
+    probability,
+  }));
+
+  // Default to at least one sector based on category
+  if (sectors.length === 0) {
+    const categoryMap: Record<string, string> = {
+      'Economy': 'Financials',
+      'Markets': 'Financials',
+      'Policy': 'Industrials',
+      'Politics': 'Defense',
+    };
+    sectors.push({
+      sector: categoryMap[article.category] || 'Financials',
+      impact: 'Uncertain',
+      reasoning: reason,
+      tickers: [],
+      timeframe: 'Short-term',
+      confidence: 'Low',
+      score: 0,
+      probability: FALLBACK_PROBABILITY,
+    });
+  }
+
+  return {
+    ...article,
+    region,
+    ...countryFields(mentions, region),
+    analysis: {
+      summary: reason,
+      sectors,
+      overallSentiment,
+      keyInsight: sentiment.hits.length > 0
+        ? `Lexicon cues: ${sentiment.hits.slice(0, 4).map(h => `${h.term} (${h.weight > 0 ? '+' : ''}${h.weight})`).join(', ')}`
+        : '',
+      impactScore: sentiment.score,
+      probability,
+    },
+    entities: detectKnownEntities(text),
+    eventType: classifyEventType(text),
+    // Assets follow their sector's signal; equities the overall sentiment, the rest have no offline cue
+    implications: Object.fromEntries(assets.map(asset => {
+      const sector = sectors.find(s => s.sector === asset.sector);
+      return [asset.id, sector ? sentimentFromImpact(sector.impact) : asset.equity ? overallSentiment : 'Neutral'];
+    })),
+  };
+}
+
+// Mixed when both sides carry real weight and neither clearly wins
+function sentimentLabel(sentiment: TextSentiment): AnalyzedArticle['analysis']['overallSentiment'] {
+  if (sentiment.positive >= 1 && sentiment.negative >= 1 && Math.abs(sentiment.score) < MIXED_THRESHOLD) return 'Mixed';
+  if (sentiment.score >= LABEL_THRESHOLD) return 'Bullish';
+  if (sentiment.score <= -LABEL_THRESHOLD) return 'Bearish';
+  return 'Neutral';
+}
+
+function scoreImpact(score: number): SectorImpact['impact'] {
+  if (score >= LABEL_THRESHOLD) return 'Bullish';
+  if (score <= -LABEL_THRESHOLD) return 'Bearish';
+  return 'Uncertain';
+}
+
+function sentimentFromImpact(impact: SectorImpact['impact']): string {
+  return impact === 'Uncertain' ? 'Neutral' : impact;
+}
@@ -0,0 +1,66 @@
+// Macro assets an analysis can assess, by id. `ticker` is a liquid proxy for charts and
+// watchlists; the offline analysis follows `sector`'s signal, or the overall sentiment for equities.
+export interface MacroAsset {
+  id: string;
+  name: string;
+  description: string; // what the model should assess, shown in the analysis prompt
+  ticker: string;
+  sector?: string;
+  equity?: boolean;
+}
+
+export const MACRO_ASSETS: MacroAsset[] = [
+  { id: 'globalEquities', name: 'Global equities', description: 'broad global stock markets', ticker: 'ACWI', equity: true },
+  { id: 'usEquities', name: 'US equities', description: 'the S&P 500 and US stocks broadly', ticker: 'SPY', equity: true },
+  { id: 'emEquities', name: 'EM equities', description: 'emerging-market stocks', ticker: 'EEM', equity: true },
+  { id: 'usTreasuries', name: 'US Treasuries', description: 'US government bond prices (bullish = yields falling)', ticker: 'TLT' },
+  { id: 'usd', name: 'USD', description: 'the US dollar against major currencies', ticker: 'UUP' },
+  { id: 'eur', name: 'EUR', description: 'the euro against the US dollar', ticker: 'FXE' },
+  { id: 'jpy', name: 'JPY', description: 'the Japanese yen against the US dollar', ticker: 'FXY' },
+  { id: 'gold', name: 'Gold', description: 'gold prices', ticker: 'GLD', sector: 'Commodities' },
+  { id: 'silver', name: 'Silver', description: 'silver prices', ticker: 'SLV', sector: 'Commodities' },
+  { id: 'oil', name: 'Oil', description: 'crude oil prices (Brent and WTI)', ticker: 'USO', sector: 'Energy' },
+  { id: 'naturalGas', name: 'Natural gas', description: 'natural gas prices', ticker: 'UNG', sector: 'Energy' },
+  { id: 'copper', name: 'Copper', description: 'copper prices', ticker: 'CPER', sector: 'Materials' },
+  { id: 'rareEarths', name: 'Rare earths', description: 'rare earth and critical mineral prices and miners', ticker: 'REMX', sector: 'Materials' },
+  { id: 'bitcoin', name: 'Bitcoin', description: 'bitcoin and crypto assets', ticker: 'IBIT' },
+];
+
+// The original fixed implications - gold, silver, rare minerals and stock markets
+export const DEFAULT_ASSET_IDS = ['gold', 'silver', 'rareEarths', 'globalEquities'];
+
+// Implication keys of analyses from before assets were configurable, and the assets they map to
+const LEGACY_KEYS: Record<string, string> = { rareMinerals: 'rareEarths', stockMarkets: 'globalEquities' };
+
+const BY_ID = new Map(MACRO_ASSETS.map(asset => [asset.id, asset]));
+
+// Known assets for a list of ids (case-insensitive), in the given order; unknown ids are dropped
+export function resolveAssets(ids: string[]): MacroAsset[] {
+  const assets = new Map<string, MacroAsset>();
+  for (const id of ids) {
+    const asset = MACRO_ASSETS.find(a => a.id.toLowerCase() === id.trim().toLowerCase());
+    if (asset) assets.set(asset.id, asset);
+  }
+  return Array.from(assets.values());
+}
+
+// Assets from an explicit comma-separated list, else ANALYSIS_ASSETS, else the defaults
+export function getConfiguredAssets(list?: string | null): MacroAsset[] {
+  for (const value of [list, process.env.ANALYSIS_ASSETS]) {
+    const assets = value ? resolveAssets(value.split(',')) : [];
+    if (assets.length) return assets;
+  }
+  return resolveAssets(DEFAULT_ASSET_IDS);
+}
+
+// Display name for an asset id or legacy implication key
+export function assetName(id: string): string {
+  return BY_ID.get(LEGACY_KEYS[id] || id)?.name || id;
+}
+
+// An article's label for an asset, reading legacy keys for older analyses
+export function assetImplication(implications: Record<string, string> | undefined, id: string): string | undefined {
+  if (!implications) return undefined;
+  const legacyKey = Object.keys(LEGACY_KEYS).find(key => LEGACY_KEYS[key] === id);
+  return implications[id] ?? (legacyKey ? implications[legacyKey] : undefined);
+}
@@ -0,0 +1,102 @@
+import type { Article, ArticleCoverage } from './types';
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'by', 'from', 'as',
+  'is', 'are', 'was', 'were', 'be', 'been', 'has', 'have', 'had', 'it', 'its', 'this', 'that', 'after',
+  'over', 'into', 'amid', 'says', 'said', 'new', 'up', 'out', 'how', 'what', 'why', 'will', 'could',
+]);
+
+const TITLE_THRESHOLD = 0.6;
+const CONTAINMENT_THRESHOLD = 0.75;
+const DESCRIPTION_THRESHOLD = 0.5;
+const MIN_TITLE_TOKENS = 4; // shorter headlines ("Live updates", "Markets wrap") are too generic to match alone
+
+interface Fingerprint {
+  title: Set<string>;
+  description: Set<string>;
+}
+
+// Group syndicated and rewritten copies of the same story. The first article of each
+// cluster (newest, given sorted input) is kept and the rest are listed in `coveredBy`.
+export function clusterArticles(articles: Article[]): Article[] {
+  const clusters: { lead: Article; fingerprint: Fingerprint; members: Article[] }[] = [];
+
+  for (const article of articles) {
+    const fingerprint = fingerprintOf(article);
+    const match = clusters.find(c => isSameStory(c.fingerprint, fingerprint));
+
+    if (match) {
+      match.members.push(article);
+    } else {
+      clusters.push({ lead: article, fingerprint, members: [article] });
+    }
+  }
+
+  return clusters.map(({ lead, members }) => {
+    if (members.length === 1) return lead;
+    const coveredBy: ArticleCoverage[] = members.map(m => ({ source: m.source, url: m.url, title: m.title }));
+    return { ...lead, coveredBy };
+  });
+}
+
+// Number of distinct outlets that carried a story
+export function outletCount(article: Pick<Article, 'source' | 'coveredBy'>): number {
+  if (!article.coveredBy?.length) return 1;
+  return new Set(article.coveredBy.map(c => c.source.toLowerCase())).size;
+}
+
+function fingerprintOf(article: Article): Fingerprint {
+  // Drop the " - Reuters" style outlet suffix NewsAPI appends to titles
+  const title = article.title.replace(/\s+[-|–—]\s+[^-|–—]+$/, '');
+  return { title: tokenize(title), description: tokenize(article.description) };
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .split(/\s+/)
+      .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+  );
+}
+
+function isSameStory(a: Fingerprint, b: Fingerprint): boolean {
+  if (a.title.size === 0 || b.title.size === 0) return false;
+
+  const shared = intersectionSize(a.title, b.title);
+  const jaccard = shared / (a.title.size + b.title.size - shared);
+
+  // Generic short headlines only match when the descriptions say it is the same story too
+  if (Math.min(a.title.size, b.title.size) < MIN_TITLE_TOKENS) {
+    return jaccard >= TITLE_THRESHOLD && descriptionSimilarity(a, b) >= DESCRIPTION_THRESHOLD;
+  }
+
+  if (jaccard >= TITLE_THRESHOLD) return true;
+
+  // A shortened rewrite of a headline is mostly contained in the original
+  const smaller = Math.min(a.title.size, b.title.size);
+  if (smaller >= 4 && shared / smaller >= CONTAINMENT_THRESHOLD) return true;
+
+  // Loosely similar headlines over the same wire copy
+  if (jaccard >= 0.3 && a.description.size >= 5 && b.description.size >= 5) {
+    return descriptionSimilarity(a, b) >= DESCRIPTION_THRESHOLD;
+  }
+
+  return false;
+}
+
+// Jaccard similarity of the descriptions; 0 when either is empty
+function descriptionSimilarity(a: Fingerprint, b: Fingerprint): number {
+  if (a.description.size === 0 || b.description.size === 0) return 0;
+  const shared = intersectionSize(a.description, b.description);
+  return shared / (a.description.size + b.description.size - shared);
+}
+
+function intersectionSize(a: Set<string>, b: Set<string>): number {
+  let count = 0;
+  for (const word of a) {
+    if (b.has(word)) count++;
+  }
+  return count;
+}
@@ -0,0 +1,144 @@
+import type { AnalysisConsensus, Article, SectorImpact } from './types';
+import type { LlmClient } from './llm';
+import type { MacroAsset } from './assets';
+import { analysisVersion, analyzeBatch, isFallbackAnalysis, type ValidatedArticle } from './analysis';
+
+const CONTESTED_AGREEMENT = 0.7; // below this average share of agreeing samples an analysis is contested
+
+interface Sample extends ValidatedArticle {
+  model: string;
+}
+
+interface Vote<T extends string> {
+  winner: T;
+  counts: Record<string, number>;
+  share: number; // fraction of all samples that voted for the winner
+}
+
+// Analyze a batch once per consensus client and merge each article's samples by vote
+export async function analyzeBatchConsensus(
+  articles: Article[],
+  excerpts: string[],
+  clients: LlmClient[],
+  assets: MacroAsset[]
+): Promise<ValidatedArticle[]> {
+  const runs = await Promise.all(clients.map(async client => {
+    const model = `${client.name}/${client.model}`;
+    try {
+      return { model, results: await analyzeBatch(articles, excerpts, client, assets) };
+    } catch (err) {
+      console.error(`Consensus sample from ${model} failed:`, err);
+      return null;
+    }
+  }));
+  const completed = runs.filter(run => run !== null);
+  if (completed.length === 0) throw new Error('Every consensus sample failed');
+
+  const version = analysisVersion(assets, clients);
+  return articles.map((_, i) => {
+    const samples = completed
+      .map(({ model, results }) => ({ model, ...results[i] }))
+      .filter(sample => !isFallbackAnalysis(sample.article));
+    // Every sample fell back - keep the fallback rather than inventing a consensus
+    return samples.length > 0 ? mergeSamples(samples, clients.length, assets, version) : completed[0].results[i];
+  });
+}
+
+// Sentiment, sector impacts and asset implications go by majority; the wording - summary, insight,
+// causal chain, entities - comes from the first sample that agrees with the sentiment vote. Shares
+// are out of every requested sample, so failed samples count as disagreeing rather than vanishing.
+function mergeSamples(samples: Sample[], total: number, assets: MacroAsset[], version: string): ValidatedArticle {
+  const analyses = samples.map(s => s.article.analysis);
+  const sentiment = vote(analyses.map(a => a.overallSentiment), total, 'Mixed');
+  const base = samples.find(s => s.article.analysis.overallSentiment === sentiment.winner) || samples[0];
+  const sectors = mergeSectors(analyses.map(a => a.sectors), total);
+
+  const shares = [sentiment.share, ...sectors.map(s => s.share)];
+  const agreement = round(shares.reduce((sum, share) => sum + share, 0) / shares.length);
+  const consensus: AnalysisConsensus = {
+    models: samples.map(s => s.model),
+    votes: sentiment.counts,
+    agreement,
+    contested: agreement < CONTESTED_AGREEMENT || samples.length * 2 < total
+      || (sentiment.counts.Bullish > 0 && sentiment.counts.Bearish > 0),
+  };
+
+  return {
+    article: {
+      ...base.article,
+      promptVersion: version,
+      implications: Object.fromEntries(assets.map(asset => [
+        asset.id,
+        vote(samples.map(s => s.article.implications[asset.id] || 'Neutral'), total, 'Mixed').winner,
+      ])),
+      analysis: {
+        ...base.article.analysis,
+        overallSentiment: sentiment.winner,
+        sectors: sectors.map(s => s.sector),
+        impactScore: round(mean(analyses.map(a => a.impactScore ?? 0))),
+        probability: round(mean(analyses.map(a => a.probability ?? 0.5))),
+        consensus,
+      },
+    },
+    validation: {
+      status: base.validation.status,
+      issues: samples.flatMap(s => s.validation.issues.map(issue => `${s.model}: ${issue}`)),
+    },
+  };
+}
+
+// Sectors named by at least half the completed samples, with their majority impact. Scores, probabilities and
+// tickers come from the samples that agree; leaving a sector out counts as disagreeing.
+function mergeSectors(lists: SectorImpact[][], total: number): { sector: SectorImpact; share: number }[] {
+  const bySector = new Map<string, SectorImpact[]>();
+  for (const list of lists) {
+    const seen = new Set<string>();
+    for (const sector of list) {
+      if (seen.has(sector.sector)) continue;
+      seen.add(sector.sector);
+      bySector.set(sector.sector, [...(bySector.get(sector.sector) || []), sector]);
+    }
+  }
+
+  return Array.from(bySector.values())
+    .filter(group => group.length * 2 >= lists.length)
+    .map(group => {
+      const impact = vote(group.map(s => s.impact), total, 'Uncertain');
+      const agreeing = group.filter(s => s.impact === impact.winner);
+      const pool = agreeing.length > 0 ? agreeing : group;
+      const unverified = unique(pool.flatMap(s => s.unverifiedTickers || []));
+      return {
+        sector: {
+          ...pool[0],
+          impact: impact.winner,
+          tickers: unique(pool.flatMap(s => s.tickers)),
+          unverifiedTickers: unverified.length > 0 ? unverified : undefined,
+          score: round(mean(pool.map(s => s.score ?? 0))),
+          probability: round(mean(pool.map(s => s.probability ?? 0.5))),
+        },
+        share: agreeing.length / total,
+      };
+    });
+}
+
+// Most common label; a tie for first place resolves to `tie`
+function vote<T extends string>(labels: T[], total: number, tie: T): Vote<T> {
+  const counts: Record<string, number> = {};
+  labels.forEach(label => { counts[label] = (counts[label] || 0) + 1; });
+  const ranked = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  const [top, runnerUp] = ranked;
+  const winner = (runnerUp && runnerUp[1] === top[1] ? tie : top[0]) as T;
+  return { winner, counts, share: (counts[winner] || 0) / total };
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
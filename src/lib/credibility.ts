@@ -0,0 +1,98 @@
+export type CredibilityTier = 'Official' | 'Wire' | 'Major' | 'Standard' | 'Unrated' | 'Tabloid';
+
+export interface SourceCredibility {
+  tier: CredibilityTier;
+  weight: number;
+}
+
+interface RegistryEntry {
+  names: string[];
+  domains: string[];
+  tier: CredibilityTier;
+}
+
+// How much one article from each tier counts in aggregate scores
+export const TIER_WEIGHTS: Record<CredibilityTier, number> = {
+  Official: 1.5,
+  Wire: 1.3,
+  Major: 1.1,
+  Standard: 1,
+  Unrated: 0.7,
+  Tabloid: 0.4,
+};
+
+const SOURCE_REGISTRY: RegistryEntry[] = [
+  // Central banks, governments and international institutions
+  { names: ['Federal Reserve'], domains: ['federalreserve.gov'], tier: 'Official' },
+  { names: ['ECB', 'European Central Bank'], domains: ['ecb.europa.eu'], tier: 'Official' },
+  { names: ['Bank of England'], domains: ['bankofengland.co.uk'], tier: 'Official' },
+  { names: ['Bank of Japan'], domains: ['boj.or.jp'], tier: 'Official' },
+  { names: ['US Treasury', 'OFAC'], domains: ['treasury.gov'], tier: 'Official' },
+  { names: ['White House'], domains: ['whitehouse.gov'], tier: 'Official' },
+  { names: ['European Commission', 'European Parliament'], domains: ['europa.eu'], tier: 'Official' },
+  { names: ['IMF'], domains: ['imf.org'], tier: 'Official' },
+  { names: ['SEC'], domains: ['sec.gov'], tier: 'Official' },
+  // Wire services
+  { names: ['Reuters'], domains: ['reuters.com'], tier: 'Wire' },
+  { names: ['Associated Press', 'AP News'], domains: ['apnews.com'], tier: 'Wire' },
+  { names: ['Bloomberg'], domains: ['bloomberg.com'], tier: 'Wire' },
+  { names: ['AFP'], domains: ['afp.com'], tier: 'Wire' },
+  // Major financial and national outlets
+  { names: ['Financial Times'], domains: ['ft.com'], tier: 'Major' },
+  { names: ['The Wall Street Journal', 'Wall Street Journal'], domains: ['wsj.com'], tier: 'Major' },
+  { names: ['The Economist'], domains: ['economist.com'], tier: 'Major' },
+  { names: ['CNBC'], domains: ['cnbc.com'], tier: 'Major' },
+  { names: ['BBC News'], domains: ['bbc.co.uk', 'bbc.com'], tier: 'Major' },
+  { names: ['The New York Times'], domains: ['nytimes.com'], tier: 'Major' },
+  { names: ['The Washington Post'], domains: ['washingtonpost.com'], tier: 'Major' },
+  { names: ['The Guardian'], domains: ['theguardian.com'], tier: 'Major' },
+  { names: ['Nikkei Asia'], domains: ['asia.nikkei.com'], tier: 'Major' },
+  { names: ['Politico', 'Politico Europe'], domains: ['politico.com', 'politico.eu'], tier: 'Major' },
+  { names: ['Barron\'s'], domains: ['barrons.com'], tier: 'Major' },
+  // General and aggregator outlets
+  { names: ['CNN'], domains: ['cnn.com'], tier: 'Standard' },
+  { names: ['Fox Business', 'Fox News'], domains: ['foxbusiness.com', 'foxnews.com'], tier: 'Standard' },
+  { names: ['MarketWatch'], domains: ['marketwatch.com'], tier: 'Standard' },
+  { names: ['Yahoo Entertainment', 'Yahoo Finance', 'Yahoo News'], domains: ['yahoo.com'], tier: 'Standard' },
+  { names: ['Business Insider'], domains: ['businessinsider.com'], tier: 'Standard' },
+  { names: ['Forbes'], domains: ['forbes.com'], tier: 'Standard' },
+  { names: ['Al Jazeera English'], domains: ['aljazeera.com'], tier: 'Standard' },
+  { names: ['Deutsche Welle'], domains: ['dw.com'], tier: 'Standard' },
+  { names: ['Axios'], domains: ['axios.com'], tier: 'Standard' },
+  { names: ['The Hill'], domains: ['thehill.com'], tier: 'Standard' },
+  // Tabloids and low-signal outlets
+  { names: ['Daily Mail', 'Dailymail.co.uk'], domains: ['dailymail.co.uk'], tier: 'Tabloid' },
+  { names: ['The Sun'], domains: ['thesun.co.uk'], tier: 'Tabloid' },
+  { names: ['New York Post'], domains: ['nypost.com'], tier: 'Tabloid' },
+  { names: ['Daily Express'], domains: ['express.co.uk'], tier: 'Tabloid' },
+  { names: ['Mirror', 'Daily Mirror'], domains: ['mirror.co.uk'], tier: 'Tabloid' },
+];
+
+// Look up a source by URL domain first, then by its display name
+export function getSourceCredibility({ source, url }: { source: string; url?: string }): SourceCredibility {
+  const hostname = hostnameOf(url);
+  const name = source.trim().toLowerCase();
+
+  const entry = (hostname && SOURCE_REGISTRY.find(e => e.domains.some(d => hostname === d || hostname.endsWith(`.${d}`))))
+    || SOURCE_REGISTRY.find(e => e.names.some(n => n.toLowerCase() === name));
+
+  const tier = entry?.tier || 'Unrated';
+  return { tier, weight: TIER_WEIGHTS[tier] };
+}
+
+// A clustered story is as credible as the best outlet carrying it
+export function getStoryCredibility(article: { source: string; url?: string; coveredBy?: { source: string; url: string }[] }): SourceCredibility {
+  const outlets = article.coveredBy?.length ? article.coveredBy : [article];
+  return outlets
+    .map(outlet => getSourceCredibility(outlet))
+    .reduce((best, current) => current.weight > best.weight ? current : best);
+}
+
+function hostnameOf(url?: string): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).hostname.replace(/^www\./, '').toLowerCase();
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,94 @@
+import type { Entity, EntityType } from './types';
+
+export const ENTITY_TYPES: EntityType[] = ['country', 'person', 'party', 'central_bank', 'institution', 'legislation'];
+
+export const ENTITY_TYPE_LABELS: Record<EntityType, string> = {
+  country: 'Country',
+  person: 'Political figure',
+  party: 'Party',
+  central_bank: 'Central bank',
+  institution: 'Institution',
+  legislation: 'Legislation',
+};
+
+// Well-known entities and the names they appear under. The first name is canonical.
+const KNOWN_ENTITIES: { type: EntityType; names: string[] }[] = [
+  { type: 'central_bank', names: ['Federal Reserve', 'Fed', 'US Federal Reserve', 'FOMC'] },
+  { type: 'central_bank', names: ['European Central Bank', 'ECB'] },
+  { type: 'central_bank', names: ['Bank of England', 'BoE'] },
+  { type: 'central_bank', names: ['Bank of Japan', 'BoJ'] },
+  { type: 'central_bank', names: ["People's Bank of China", 'PBoC', 'PBOC'] },
+  { type: 'central_bank', names: ['Swiss National Bank', 'SNB'] },
+  { type: 'central_bank', names: ['Bank of Canada', 'BoC'] },
+  { type: 'central_bank', names: ['Reserve Bank of Australia', 'RBA'] },
+  { type: 'central_bank', names: ['Reserve Bank of India', 'RBI'] },
+  { type: 'institution', names: ['International Monetary Fund', 'IMF'] },
+  { type: 'institution', names: ['World Bank'] },
+  { type: 'institution', names: ['World Trade Organization', 'WTO'] },
+  { type: 'institution', names: ['OPEC', 'OPEC+', 'Organization of the Petroleum Exporting Countries'] },
+  { type: 'institution', names: ['European Commission', 'EU Commission'] },
+  { type: 'institution', names: ['European Union', 'EU'] },
+  { type: 'institution', names: ['NATO', 'North Atlantic Treaty Organization'] },
+  { type: 'institution', names: ['United Nations', 'UN'] },
+  { type: 'institution', names: ['US Congress', 'Congress'] },
+  { type: 'institution', names: ['US Treasury', 'Treasury Department', 'Treasury'] },
+  { type: 'institution', names: ['Securities and Exchange Commission', 'SEC'] },
+  { type: 'institution', names: ['Office of Foreign Assets Control', 'OFAC'] },
+  { type: 'legislation', names: ['CHIPS and Science Act', 'CHIPS Act'] },
+  { type: 'legislation', names: ['Inflation Reduction Act', 'IRA'] },
+  { type: 'legislation', names: ['EU AI Act', 'AI Act'] },
+  { type: 'legislation', names: ['Digital Markets Act', 'DMA'] },
+  { type: 'country', names: ['United States', 'US', 'USA', 'U.S.', 'United States of America', 'America'] },
+  { type: 'country', names: ['United Kingdom', 'UK', 'U.K.', 'Britain', 'Great Britain'] },
+  { type: 'country', names: ['China', "People's Republic of China", 'PRC'] },
+  { type: 'country', names: ['Russia', 'Russian Federation'] },
+  { type: 'country', names: ['South Korea', 'Republic of Korea'] },
+  { type: 'party', names: ['Republican Party', 'Republicans', 'GOP'] },
+  { type: 'party', names: ['Democratic Party', 'Democrats'] },
+  { type: 'party', names: ['Chinese Communist Party', 'Communist Party of China', 'CCP'] },
+];
+
+const canonicalNames = new Map<string, { name: string; type: EntityType }>();
+for (const { type, names } of KNOWN_ENTITIES) {
+  for (const name of names) canonicalNames.set(entityKey(name), { name: names[0], type });
+}
+
+// Case- and punctuation-insensitive key, e.g. "U.S." and "US" match
+export function entityKey(name: string): string {
+  return name.toLowerCase().replace(/[^\p{L}\p{N}+]/gu, '');
+}
+
+// Map aliases to their canonical name; known entities also get their type corrected
+export function canonicalizeEntity(entity: Entity): Entity {
+  const known = canonicalNames.get(entityKey(entity.name));
+  return known ? { name: known.name, type: known.type } : { name: entity.name.trim(), type: entity.type };
+}
+
+// Remove duplicates after canonicalization
+export function dedupeEntities(entities: Entity[]): Entity[] {
+  const seen = new Set<string>();
+  return entities.filter(e => {
+    const key = `${e.type}:${entityKey(e.name)}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Known entities mentioned in free text - used when the LLM is unavailable.
+// Short and all-caps aliases (US, EU, Fed) match case-sensitively to avoid hits like "us" or "fed up".
+export function detectKnownEntities(text: string): Entity[] {
+  const found: Entity[] = [];
+  for (const { type, names } of KNOWN_ENTITIES) {
+    const mentioned = names.some(name => {
+      const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(name)}(?=$|[^\\p{L}\\p{N}])`, name.length <= 4 || name === name.toUpperCase() ? 'u' : 'iu');
+      return pattern.test(text);
+    });
+    if (mentioned) found.push({ name: names[0], type });
+  }
+  return found;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,46 @@
+import type { EventType } from './types';
+
+// Fixed taxonomy of political and economic events an article can report
+export const EVENT_TYPES: EventType[] = [
+  'Election',
+  'Rate decision',
+  'Trade action',
+  'Sanctions',
+  'Fiscal package',
+  'Regulation',
+  'Legislation',
+  'Military conflict',
+  'Diplomatic summit',
+  'Court ruling',
+  'Political crisis',
+  'Economic data',
+  'Other',
+];
+
+// Keyword cues per event type, checked in order so the more specific types win.
+// Keywords match whole words; a trailing * matches any ending ("sanction*" → "sanctioned").
+const EVENT_KEYWORDS: [EventType, string[]][] = [
+  ['Rate decision', ['rate decision', 'rate cut*', 'rate hike*', 'raises rates', 'cuts rates', 'holds rates', 'interest rate*', 'monetary policy', 'fomc']],
+  ['Sanctions', ['sanction*', 'embargo*', 'blacklist*', 'asset freeze', 'export ban*']],
+  ['Trade action', ['tariff*', 'trade war', 'trade deal*', 'import dut*', 'export control*', 'anti-dumping', 'quota*']],
+  ['Military conflict', ['war', 'military', 'missile*', 'airstrike*', 'invasion', 'invade*', 'troops', 'ceasefire', 'attack*']],
+  ['Election', ['election*', 'vote*', 'voter*', 'ballot*', 'polls', 'campaign*', 'referendum', 'candidate*']],
+  ['Diplomatic summit', ['summit*', 'talks', 'g7', 'g20', 'state visit', 'diplomat*', 'treaty']],
+  ['Fiscal package', ['stimulus', 'budget*', 'spending bill', 'tax cut*', 'tax hike*', 'fiscal', 'debt ceiling', 'bailout*']],
+  ['Court ruling', ['court', 'ruling', 'judge*', 'lawsuit*', 'verdict']],
+  ['Legislation', ['bill', 'bills', 'legislat*', 'senate', 'congress', 'lawmaker*']],
+  ['Regulation', ['regulat*', 'antitrust', 'sec', 'probe*', 'rules', 'ban', 'bans', 'banned', 'compliance']],
+  ['Political crisis', ['resign*', 'impeach*', 'coup', 'protest*', 'shutdown', 'no-confidence', 'unrest']],
+  ['Economic data', ['inflation', 'cpi', 'gdp', 'jobs report', 'unemployment', 'payrolls', 'pmi', 'retail sales']],
+];
+
+const EVENT_PATTERNS: [EventType, RegExp][] = EVENT_KEYWORDS.map(([type, keywords]) => [
+  type,
+  new RegExp(`\\b(${keywords.map(k => k.endsWith('*') ? `${k.slice(0, -1)}\\w*` : k).join('|')})\\b`, 'i'),
+]);
+
+// Keyword classification used when the LLM is unavailable
+export function classifyEventType(text: string): EventType {
+  const match = EVENT_PATTERNS.find(([, pattern]) => pattern.test(text));
+  return match ? match[0] : 'Other';
+}
@@ -0,0 +1,140 @@
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+import type { Article } from './types';
+import { htmlToText, truncate } from './html';
+
+const FETCH_TIMEOUT_MS = 5000;
+const MAX_BODY_BYTES = 1024 * 1024; // article pages past this are cut off rather than read whole
+const MAX_REDIRECTS = 3;
+const EXCERPT_CHARS = 800;
+const MIN_BODY_CHARS = 200; // less than this usually means a paywall, consent page or bot block
+const MIN_PARAGRAPH_CHARS = 40;
+
+export function isExtractionEnabled(): boolean {
+  return process.env.ARTICLE_EXTRACTION !== 'false';
+}
+
+// Fetch an article page and pull out its readable body text. URLs can come from API clients, so
+// only public http(s) hosts are fetched - checked again on every redirect - and reads are capped.
+export async function extractArticleText(url: string): Promise<string | null> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    let target = url;
+    for (let redirects = 0; ; redirects++) {
+      if (!await isPublicUrl(target)) return null;
+
+      const response = await fetch(target, {
+        headers: { 'User-Agent': 'Mozilla/5.0', 'Accept': 'text/html' },
+        signal: controller.signal,
+        cache: 'no-store',
+        redirect: 'manual',
+      });
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        if (redirects >= MAX_REDIRECTS) return null;
+        target = new URL(location, target).toString();
+        continue;
+      }
+
+      if (!response.ok || !response.headers.get('content-type')?.includes('text/html')) {
+        return null;
+      }
+
+      const body = extractMainText(await readLimited(response, MAX_BODY_BYTES));
+      return body.length >= MIN_BODY_CHARS ? body : null;
+    }
+  } catch {
+    return null;
+  } finally {
+    controller.abort(); // stops any body left unread
+    clearTimeout(timeout);
+  }
+}
+
+// Trimmed excerpt for the analysis prompt, falling back to the description when extraction fails
+export async function getArticleExcerpt(article: Pick<Article, 'url' | 'description'>): Promise<string> {
+  const text = isExtractionEnabled() ? await extractArticleText(article.url) : null;
+  return truncate(text || article.description || '', EXCERPT_CHARS);
+}
+
+// http(s) URLs whose host resolves only to public addresses - no loopback, private networks,
+// link-local (cloud metadata) or other reserved ranges
+async function isPublicUrl(url: string): Promise<boolean> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return false;
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost')) return false;
+  try {
+    const addresses = isIP(host) ? [{ address: host }] : await lookup(host, { all: true });
+    return addresses.length > 0 && addresses.every(({ address }) => isPublicAddress(address));
+  } catch {
+    return false;
+  }
+}
+
+function isPublicAddress(address: string): boolean {
+  if (isIP(address) === 4) {
+    const [a, b] = address.split('.').map(Number);
+    return !(
+      a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b < 128) || // carrier-grade NAT
+      (a === 169 && b === 254) || // link-local, including cloud metadata
+      (a === 172 && b >= 16 && b < 32) ||
+      (a === 192 && (b === 168 || b === 0)) ||
+      (a === 198 && (b === 18 || b === 19))
+    );
+  }
+
+  const lower = address.toLowerCase();
+  const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPublicAddress(mapped[1]);
+  return !(
+    lower === '::' || lower === '::1' ||
+    /^f[cd]/.test(lower) || // unique local
+    /^fe[89ab]/.test(lower) || // link-local
+    lower.startsWith('ff') // multicast
+  );
+}
+
+// Response text up to `maxBytes`; the rest of the body is never downloaded
+async function readLimited(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let bytes = 0;
+  while (bytes < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const chunk = value.subarray(0, maxBytes - bytes);
+    bytes += chunk.length;
+    text += decoder.decode(chunk, { stream: true });
+  }
+  await reader.cancel().catch(() => {});
+  return text + decoder.decode();
+}
+
+function extractMainText(html: string): string {
+  const cleaned = html.replace(/<(script|style|noscript|nav|header|footer|aside|form|svg)[\s>][\s\S]*?<\/\1>/gi, ' ');
+
+  // Prefer the largest <article>, then <main>, then the whole page
+  const articles = cleaned.match(/<article[\s>][\s\S]*?<\/article>/gi) || [];
+  const region = articles.sort((a, b) => b.length - a.length)[0]
+    || cleaned.match(/<main[\s>][\s\S]*?<\/main>/i)?.[0]
+    || cleaned;
+
+  const paragraphs = (region.match(/<p[\s>][\s\S]*?<\/p>/gi) || [])
+    .map(p => htmlToText(p))
+    .filter(p => p.length >= MIN_PARAGRAPH_CHARS);
+
+  return paragraphs.join(' ');
+}
@@ -0,0 +1,191 @@
+// Country gazetteer: names, capitals, leaders, demonyms and seats of government that identify
+// which country a story is about. Leaders change - keep those entries current.
+interface GazetteerEntry {
+  code: string; // ISO 3166-1 alpha-2 (EU and PS for the European Union and Palestinian Territories)
+  country: string;
+  region: string;
+  subregion: string;
+  terms: string[];
+}
+
+export interface CountryInfo {
+  code: string;
+  country: string;
+  region: string;
+  subregion: string;
+}
+
+// Sub-regions within each of the five top-level regions, in display order
+export const SUBREGIONS: Record<string, string[]> = {
+  Americas: ['North America', 'Latin America'],
+  Europe: ['Western Europe', 'Northern Europe', 'Southern Europe', 'Eastern Europe'],
+  Asia: ['East Asia', 'Southeast Asia', 'South Asia', 'Central Asia', 'Oceania'],
+  'Middle East': ['Levant', 'Gulf'],
+  Africa: ['North Africa', 'Sub-Saharan Africa'],
+};
+
+const GAZETTEER: GazetteerEntry[] = [
+  // Americas
+  { code: 'US', country: 'United States', region: 'Americas', subregion: 'North America', terms: ['United States', 'US', 'U.S.', 'USA', 'America', 'American', 'Americans', 'Washington', 'White House', 'Congress', 'Senate', 'Pentagon', 'Wall Street', 'Federal Reserve', 'Fed', 'Trump', 'Vance', 'Biden', 'Powell', 'Bessent'] },
+  { code: 'CA', country: 'Canada', region: 'Americas', subregion: 'North America', terms: ['Canada', 'Canadian', 'Canadians', 'Ottawa', 'Carney', 'Trudeau', 'Bank of Canada'] },
+  { code: 'MX', country: 'Mexico', region: 'Americas', subregion: 'Latin America', terms: ['Mexico', 'Mexican', 'Mexicans', 'Mexico City', 'Sheinbaum', 'Banxico'] },
+  { code: 'BR', country: 'Brazil', region: 'Americas', subregion: 'Latin America', terms: ['Brazil', 'Brazilian', 'Brazilians', 'Brasilia', 'Brasília', 'Lula'] },
+  { code: 'AR', country: 'Argentina', region: 'Americas', subregion: 'Latin America', terms: ['Argentina', 'Argentine', 'Argentinian', 'Buenos Aires', 'Milei'] },
+  { code: 'CL', country: 'Chile', region: 'Americas', subregion: 'Latin America', terms: ['Chile', 'Chilean', 'Santiago'] },
+  { code: 'CO', country: 'Colombia', region: 'Americas', subregion: 'Latin America', terms: ['Colombia', 'Colombian', 'Bogota', 'Bogotá', 'Petro'] },
+  { code: 'PE', country: 'Peru', region: 'Americas', subregion: 'Latin America', terms: ['Peru', 'Peruvian', 'Lima'] },
+  { code: 'VE', country: 'Venezuela', region: 'Americas', subregion: 'Latin America', terms: ['Venezuela', 'Venezuelan', 'Caracas', 'Maduro'] },
+  { code: 'CU', country: 'Cuba', region: 'Americas', subregion: 'Latin America', terms: ['Cuba', 'Cuban', 'Havana'] },
+  { code: 'PA', country: 'Panama', region: 'Americas', subregion: 'Latin America', terms: ['Panama', 'Panamanian', 'Panama Canal'] },
+  // Europe
+  { code: 'EU', country: 'European Union', region: 'Europe', subregion: 'Western Europe', terms: ['European Union', 'EU', 'Brussels', 'European Commission', 'European Parliament', 'European Central Bank', 'ECB', 'eurozone', 'euro zone', 'von der Leyen', 'Lagarde'] },
+  { code: 'GB', country: 'United Kingdom', region: 'Europe', subregion: 'Western Europe', terms: ['United Kingdom', 'UK', 'U.K.', 'Britain', 'British', 'Briton', 'Britons', 'London', 'Downing Street', 'Westminster', 'Bank of England', 'Starmer', 'Reeves'] },
+  { code: 'DE', country: 'Germany', region: 'Europe', subregion: 'Western Europe', terms: ['Germany', 'German', 'Germans', 'Berlin', 'Bundestag', 'Bundesbank', 'Merz', 'Scholz'] },
+  { code: 'FR', country: 'France', region: 'Europe', subregion: 'Western Europe', terms: ['France', 'French', 'Paris', 'Elysee', 'Élysée', 'Macron'] },
+  { code: 'IT', country: 'Italy', region: 'Europe', subregion: 'Southern Europe', terms: ['Italy', 'Italian', 'Italians', 'Rome', 'Meloni'] },
+  { code: 'ES', country: 'Spain', region: 'Europe', subregion: 'Southern Europe', terms: ['Spain', 'Spanish', 'Madrid'] },
+  { code: 'NL', country: 'Netherlands', region: 'Europe', subregion: 'Western Europe', terms: ['Netherlands', 'Dutch', 'Amsterdam', 'The Hague'] },
+  { code: 'CH', country: 'Switzerland', region: 'Europe', subregion: 'Western Europe', terms: ['Switzerland', 'Swiss', 'Bern', 'Zurich', 'Swiss National Bank', 'SNB'] },
+  { code: 'PL', country: 'Poland', region: 'Europe', subregion: 'Eastern Europe', terms: ['Poland', 'Polish', 'Warsaw', 'Tusk'] },
+  { code: 'HU', country: 'Hungary', region: 'Europe', subregion: 'Eastern Europe', terms: ['Hungary', 'Hungarian', 'Budapest', 'Orban', 'Orbán'] },
+  { code: 'GR', country: 'Greece', region: 'Europe', subregion: 'Southern Europe', terms: ['Greece', 'Greek', 'Athens'] },
+  { code: 'SE', country: 'Sweden', region: 'Europe', subregion: 'Northern Europe', terms: ['Sweden', 'Swedish', 'Stockholm', 'Riksbank'] },
+  { code: 'NO', country: 'Norway', region: 'Europe', subregion: 'Northern Europe', terms: ['Norway', 'Norwegian', 'Oslo'] },
+  { code: 'DK', country: 'Denmark', region: 'Europe', subregion: 'Northern Europe', terms: ['Denmark', 'Danish', 'Copenhagen', 'Greenland'] },
+  { code: 'FI', country: 'Finland', region: 'Europe', subregion: 'Northern Europe', terms: ['Finland', 'Finnish', 'Helsinki'] },
+  { code: 'IE', country: 'Ireland', region: 'Europe', subregion: 'Western Europe', terms: ['Ireland', 'Irish', 'Dublin'] },
+  { code: 'BE', country: 'Belgium', region: 'Europe', subregion: 'Western Europe', terms: ['Belgium', 'Belgian'] },
+  { code: 'AT', country: 'Austria', region: 'Europe', subregion: 'Western Europe', terms: ['Austria', 'Austrian', 'Vienna'] },
+  { code: 'PT', country: 'Portugal', region: 'Europe', subregion: 'Southern Europe', terms: ['Portugal', 'Portuguese', 'Lisbon'] },
+  { code: 'RO', country: 'Romania', region: 'Europe', subregion: 'Eastern Europe', terms: ['Romania', 'Romanian', 'Bucharest'] },
+  { code: 'RS', country: 'Serbia', region: 'Europe', subregion: 'Eastern Europe', terms: ['Serbia', 'Serbian', 'Belgrade'] },
+  { code: 'RU', country: 'Russia', region: 'Europe', subregion: 'Eastern Europe', terms: ['Russia', 'Russian', 'Russians', 'Moscow', 'Kremlin', 'Putin', 'Lavrov'] },
+  { code: 'UA', country: 'Ukraine', region: 'Europe', subregion: 'Eastern Europe', terms: ['Ukraine', 'Ukrainian', 'Ukrainians', 'Kyiv', 'Kiev', 'Zelensky', 'Zelenskyy'] },
+  { code: 'BY', country: 'Belarus', region: 'Europe', subregion: 'Eastern Europe', terms: ['Belarus', 'Belarusian', 'Minsk', 'Lukashenko'] },
+  { code: 'TR', country: 'Turkey', region: 'Europe', subregion: 'Southern Europe', terms: ['Turkey', 'Türkiye', 'Turkish', 'Ankara', 'Istanbul', 'Erdogan', 'Erdoğan'] },
+  // Asia and Pacific
+  { code: 'CN', country: 'China', region: 'Asia', subregion: 'East Asia', terms: ['China', 'Chinese', 'Beijing', 'Xi Jinping', 'Xi', 'Li Qiang', "People's Bank of China", 'PBOC', 'PBoC', 'Shanghai', 'Shenzhen'] },
+  { code: 'HK', country: 'Hong Kong', region: 'Asia', subregion: 'East Asia', terms: ['Hong Kong'] },
+  { code: 'TW', country: 'Taiwan', region: 'Asia', subregion: 'East Asia', terms: ['Taiwan', 'Taiwanese', 'Taipei', 'Lai Ching-te'] },
+  { code: 'JP', country: 'Japan', region: 'Asia', subregion: 'East Asia', terms: ['Japan', 'Japanese', 'Tokyo', 'Bank of Japan', 'BOJ', 'BoJ', 'Takaichi', 'Ishiba', 'Ueda'] },
+  { code: 'KR', country: 'South Korea', region: 'Asia', subregion: 'East Asia', terms: ['South Korea', 'South Korean', 'Seoul', 'Lee Jae-myung'] },
+  { code: 'KP', country: 'North Korea', region: 'Asia', subregion: 'East Asia', terms: ['North Korea', 'North Korean', 'Pyongyang', 'Kim Jong Un', 'Kim Jong-un'] },
+  { code: 'IN', country: 'India', region: 'Asia', subregion: 'South Asia', terms: ['India', 'Indian', 'Indians', 'New Delhi', 'Delhi', 'Mumbai', 'Modi', 'Reserve Bank of India', 'RBI'] },
+  { code: 'PK', country: 'Pakistan', region: 'Asia', subregion: 'South Asia', terms: ['Pakistan', 'Pakistani', 'Islamabad'] },
+  { code: 'BD', country: 'Bangladesh', region: 'Asia', subregion: 'South Asia', terms: ['Bangladesh', 'Bangladeshi', 'Dhaka'] },
+  { code: 'ID', country: 'Indonesia', region: 'Asia', subregion: 'Southeast Asia', terms: ['Indonesia', 'Indonesian', 'Jakarta', 'Prabowo'] },
+  { code: 'VN', country: 'Vietnam', region: 'Asia', subregion: 'Southeast Asia', terms: ['Vietnam', 'Vietnamese', 'Hanoi'] },
+  { code: 'TH', country: 'Thailand', region: 'Asia', subregion: 'Southeast Asia', terms: ['Thailand', 'Thai', 'Bangkok'] },
+  { code: 'PH', country: 'Philippines', region: 'Asia', subregion: 'Southeast Asia', terms: ['Philippines', 'Philippine', 'Filipino', 'Manila', 'Marcos'] },
+  { code: 'MY', country: 'Malaysia', region: 'Asia', subregion: 'Southeast Asia', terms: ['Malaysia', 'Malaysian', 'Kuala Lumpur', 'Anwar'] },
+  { code: 'SG', country: 'Singapore', region: 'Asia', subregion: 'Southeast Asia', terms: ['Singapore', 'Singaporean'] },
+  { code: 'AU', country: 'Australia', region: 'Asia', subregion: 'Oceania', terms: ['Australia', 'Australian', 'Australians', 'Canberra', 'Sydney', 'Albanese', 'Reserve Bank of Australia', 'RBA'] },
+  { code: 'NZ', country: 'New Zealand', region: 'Asia', subregion: 'Oceania', terms: ['New Zealand', 'Wellington'] },
+  { code: 'KZ', country: 'Kazakhstan', region: 'Asia', subregion: 'Central Asia', terms: ['Kazakhstan', 'Kazakh', 'Astana'] },
+  { code: 'AF', country: 'Afghanistan', region: 'Asia', subregion: 'South Asia', terms: ['Afghanistan', 'Afghan', 'Kabul', 'Taliban'] },
+  // Middle East
+  { code: 'IL', country: 'Israel', region: 'Middle East', subregion: 'Levant', terms: ['Israel', 'Israeli', 'Israelis', 'Jerusalem', 'Tel Aviv', 'Netanyahu'] },
+  { code: 'PS', country: 'Palestinian Territories', region: 'Middle East', subregion: 'Levant', terms: ['Gaza', 'West Bank', 'Palestinian', 'Palestinians', 'Hamas'] },
+  { code: 'IR', country: 'Iran', region: 'Middle East', subregion: 'Gulf', terms: ['Iran', 'Iranian', 'Iranians', 'Tehran', 'Khamenei', 'Pezeshkian'] },
+  { code: 'SA', country: 'Saudi Arabia', region: 'Middle East', subregion: 'Gulf', terms: ['Saudi Arabia', 'Saudi', 'Saudis', 'Riyadh', 'Aramco', 'Mohammed bin Salman', 'MBS'] },
+  { code: 'AE', country: 'United Arab Emirates', region: 'Middle East', subregion: 'Gulf', terms: ['United Arab Emirates', 'UAE', 'Emirati', 'Abu Dhabi', 'Dubai'] },
+  { code: 'QA', country: 'Qatar', region: 'Middle East', subregion: 'Gulf', terms: ['Qatar', 'Qatari', 'Doha'] },
+  { code: 'IQ', country: 'Iraq', region: 'Middle East', subregion: 'Gulf', terms: ['Iraq', 'Iraqi', 'Baghdad'] },
+  { code: 'SY', country: 'Syria', region: 'Middle East', subregion: 'Levant', terms: ['Syria', 'Syrian', 'Damascus'] },
+  { code: 'LB', country: 'Lebanon', region: 'Middle East', subregion: 'Levant', terms: ['Lebanon', 'Lebanese', 'Beirut', 'Hezbollah'] },
+  { code: 'JO', country: 'Jordan', region: 'Middle East', subregion: 'Levant', terms: ['Jordan', 'Jordanian', 'Amman'] },
+  { code: 'YE', country: 'Yemen', region: 'Middle East', subregion: 'Gulf', terms: ['Yemen', 'Yemeni', 'Houthi', 'Houthis', 'Sanaa'] },
+  { code: 'KW', country: 'Kuwait', region: 'Middle East', subregion: 'Gulf', terms: ['Kuwait', 'Kuwaiti'] },
+  { code: 'OM', country: 'Oman', region: 'Middle East', subregion: 'Gulf', terms: ['Oman', 'Omani', 'Muscat'] },
+  // Africa
+  { code: 'EG', country: 'Egypt', region: 'Africa', subregion: 'North Africa', terms: ['Egypt', 'Egyptian', 'Cairo', 'Suez Canal', 'Sisi'] },
+  { code: 'ZA', country: 'South Africa', region: 'Africa', subregion: 'Sub-Saharan Africa', terms: ['South Africa', 'South African', 'Pretoria', 'Johannesburg', 'Ramaphosa'] },
+  { code: 'NG', country: 'Nigeria', region: 'Africa', subregion: 'Sub-Saharan Africa', terms: ['Nigeria', 'Nigerian', 'Abuja', 'Lagos', 'Tinubu'] },
+  { code: 'KE', country: 'Kenya', region: 'Africa', subregion: 'Sub-Saharan Africa', terms: ['Kenya', 'Kenyan', 'Nairobi', 'Ruto'] },
+  { code: 'ET', country: 'Ethiopia', region: 'Africa', subregion: 'Sub-Saharan Africa', terms: ['Ethiopia', 'Ethiopian', 'Addis Ababa'] },
+  { code: 'GH', country: 'Ghana', region: 'Africa', subregion: 'Sub-Saharan Africa', terms: ['Ghana', 'Ghanaian', 'Accra'] },
+  { code: 'MA', country: 'Morocco', region: 'Africa', subregion: 'North Africa', terms: ['Morocco', 'Moroccan', 'Rabat'] },
+  { code: 'DZ', country: 'Algeria', region: 'Africa', subregion: 'North Africa', terms: ['Algeria', 'Algerian', 'Algiers'] },
+  { code: 'LY', country: 'Libya', region: 'Africa', subregion: 'North Africa', terms: ['Libya', 'Libyan', 'Tripoli'] },
+  { code: 'SD', country: 'Sudan', region: 'Africa', subregion: 'North Africa', terms: ['Sudan', 'Sudanese', 'Khartoum'] },
+  { code: 'CD', country: 'Democratic Republic of the Congo', region: 'Africa', subregion: 'Sub-Saharan Africa', terms: ['Democratic Republic of the Congo', 'DR Congo', 'DRC', 'Congolese', 'Kinshasa'] },
+  { code: 'ZM', country: 'Zambia', region: 'Africa', subregion: 'Sub-Saharan Africa', terms: ['Zambia', 'Zambian', 'Lusaka'] },
+  { code: 'AO', country: 'Angola', region: 'Africa', subregion: 'Sub-Saharan Africa', terms: ['Angola', 'Angolan', 'Luanda'] },
+  { code: 'ML', country: 'Mali', region: 'Africa', subregion: 'Sub-Saharan Africa', terms: ['Mali', 'Malian', 'Bamako'] },
+  { code: 'NE', country: 'Niger', region: 'Africa', subregion: 'Sub-Saharan Africa', terms: ['Niger', 'Nigerien', 'Niamey'] },
+];
+
+// Names containing a gazetteer term that say nothing about the country ("Bank of America")
+const MASKED_PHRASES = /\b(Bank of America|American Express|American Airlines|Latin Americans?|South Americans?|North Americans?|Central Americans?|Pan American|New Mexico|Indian Ocean)\b/g;
+
+const TITLE_WEIGHT = 2; // a country named in the headline outweighs passing mentions
+const CONFIDENT_SHARE = 2 / 3; // share of all mentions the primary country needs to be confident
+
+export interface CountryMention extends CountryInfo {
+  score: number; // weighted mentions: title hits count double
+  inTitle: boolean;
+}
+
+export interface CountryDetection extends CountryMention {
+  // Named in the headline and clearly dominant - strong enough to overrule an LLM's region
+  confident: boolean;
+}
+
+// Case-sensitive whole-term matching so "US" and "Fed" don't match "us" and "fed up"
+const patterns = GAZETTEER.map(entry => ({
+  entry,
+  pattern: new RegExp(`(?<![\\p{L}\\p{N}])(${entry.terms.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`, 'gu'),
+}));
+
+// Every country mentioned in a story, most mentioned first (headline order breaks ties)
+export function detectCountries(title: string, description = ''): CountryMention[] {
+  title = title.replace(MASKED_PHRASES, '');
+  description = description.replace(MASKED_PHRASES, '');
+  const mentions: { mention: CountryMention; position: number }[] = [];
+  for (const { entry, pattern } of patterns) {
+    const titleHits = [...title.matchAll(pattern)];
+    const descriptionHits = description.match(pattern)?.length || 0;
+    const score = titleHits.length * TITLE_WEIGHT + descriptionHits;
+    if (score === 0) continue;
+    mentions.push({
+      mention: { ...countryInfo(entry), score, inTitle: titleHits.length > 0 },
+      position: titleHits[0]?.index ?? title.length,
+    });
+  }
+  return mentions
+    .sort((a, b) => b.mention.score - a.mention.score || a.position - b.position)
+    .map(({ mention }) => mention);
+}
+
+// The country a story is mainly about, or null when none is mentioned
+export function detectCountry(title: string, description = ''): CountryDetection | null {
+  return primaryCountry(detectCountries(title, description));
+}
+
+// The dominant country among already-detected mentions
+export function primaryCountry(mentions: CountryMention[]): CountryDetection | null {
+  if (mentions.length === 0) return null;
+  const total = mentions.reduce((sum, m) => sum + m.score, 0);
+  const primary = mentions[0];
+  return { ...primary, confident: primary.inTitle && primary.score / total >= CONFIDENT_SHARE };
+}
+
+const BY_CODE = new Map(GAZETTEER.map(entry => [entry.code, countryInfo(entry)]));
+
+// Name, region and sub-region for an ISO country code, or undefined when it isn't in the gazetteer
+export function getCountryInfo(code: string): CountryInfo | undefined {
+  return BY_CODE.get(code.toUpperCase());
+}
+
+// The first of an article's countries that lies in its region - the country it files under
+export function regionalCountry(countries: string[] | undefined, region: string): string | undefined {
+  return countries?.find(code => getCountryInfo(code)?.region === region);
+}
+
+function countryInfo({ code, country, region, subregion }: GazetteerEntry): CountryInfo {
+  return { code, country, region, subregion };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,8 @@
+import { createHash } from 'crypto';
+
+// Stable id derived from where an article lives and what it says, so the same story keeps its id
+// across scans while different stories sharing a generic headline ("Live updates") do not collide
+export function articleId(url: string, title: string, description?: string | null): string {
+  const normalized = `${title}\n${description || ''}`.toLowerCase().replace(/\s+/g, ' ').trim();
+  return createHash('sha256').update(`${url.trim()}\n${normalized}`).digest('hex').substring(0, 16);
+}
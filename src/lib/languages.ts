@@ -0,0 +1,35 @@
+// Languages the scanner can ingest, by ISO 639-1 code
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  zh: 'Chinese',
+  de: 'German',
+  fr: 'French',
+  ar: 'Arabic',
+  es: 'Spanish',
+  it: 'Italian',
+  pt: 'Portuguese',
+  ru: 'Russian',
+  nl: 'Dutch',
+  he: 'Hebrew',
+  no: 'Norwegian',
+  sv: 'Swedish',
+};
+
+const KNOWN_CODES = new Set(Object.keys(LANGUAGE_NAMES));
+
+// Source languages from an explicit comma-separated list, else NEWS_LANGUAGES, else English only.
+// Unknown codes are dropped, so only supported languages reach the source URLs.
+export function getConfiguredLanguages(list?: string | null): string[] {
+  for (const value of [list, process.env.NEWS_LANGUAGES]) {
+    const languages = (value || '')
+      .split(',')
+      .map(code => code.trim().toLowerCase())
+      .filter(code => KNOWN_CODES.has(code));
+    if (languages.length) return Array.from(new Set(languages));
+  }
+  return ['en'];
+}
+
+export function languageName(code: string): string {
+  return LANGUAGE_NAMES[code] || code.toUpperCase();
+}
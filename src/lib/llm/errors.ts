@@ -0,0 +1,29 @@
+// Thrown by provider adapters for non-2xx responses so the scheduler can decide whether to retry
+export class LlmRequestError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public retryAfterMs?: number // from Retry-After or the provider's own retry hint
+  ) {
+    super(message);
+    this.name = 'LlmRequestError';
+  }
+}
+
+// Rate limits and transient server errors are worth retrying; bad requests and auth failures are not
+export function isRetryableError(err: unknown): boolean {
+  if (err instanceof LlmRequestError) {
+    return err.status === 408 || err.status === 429 || err.status >= 500;
+  }
+  // Network failures surface as TypeError from fetch
+  return err instanceof TypeError;
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
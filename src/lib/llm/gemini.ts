@@ -0,0 +1,44 @@
+import type { LlmClient } from './types';
+import { LlmRequestError, parseRetryAfter } from './errors';
+
+export function createGeminiClient(apiKey: string, model: string): LlmClient {
+  return {
+    name: 'gemini',
+    model,
+    async generate(prompt, options = {}) {
+      const response = await fetch(
+        `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            contents: [{ parts: [{ text: prompt }] }],
+            generationConfig: {
+              temperature: options.temperature ?? 0.3,
+              maxOutputTokens: options.maxOutputTokens ?? 4096,
+            },
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('Gemini API error response:', errorText);
+        throw new LlmRequestError(
+          `Gemini API error: ${response.status}`,
+          response.status,
+          parseRetryAfter(response.headers.get('retry-after')) ?? parseRetryDelay(errorText)
+        );
+      }
+
+      const data = await response.json();
+      return data.candidates?.[0]?.content?.parts?.[0]?.text || '';
+    },
+  };
+}
+
+// Gemini puts its retry hint in the error body, e.g. "retryDelay": "17s"
+function parseRetryDelay(body: string): number | undefined {
+  const match = body.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Number(match[1]) * 1000 : undefined;
+}
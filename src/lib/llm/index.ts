@@ -0,0 +1,79 @@
+import type { LlmClient } from './types';
+import { createGeminiClient } from './gemini';
+import { createOpenAiClient } from './openai';
+import { createMockClient } from './mock';
+import { getSharedScheduler, withScheduling } from './scheduler';
+
+export type { GenerateOptions, LlmClient, LlmTask, ThrottleEvent } from './types';
+export { LlmRequestError } from './errors';
+export { getSchedulerConfig } from './scheduler';
+
+// Build the LLM client from LLM_PROVIDER (gemini, openai, local or mock; defaults to gemini)
+// and LLM_MODEL / LLM_BASE_URL / LLM_API_KEY, with requests going through the shared
+// rate-limiting scheduler. Returns null when the provider is not configured.
+export function getLlmClient(): LlmClient | null {
+  return createProviderClient(primaryProvider(), process.env.LLM_MODEL);
+}
+
+// Clients for consensus analysis: one per LLM_CONSENSUS_MODELS entry ("provider:model" or just
+// "provider"), else LLM_CONSENSUS_SAMPLES samples of the default client. Empty when consensus is off.
+export function getConsensusClients(): LlmClient[] {
+  const models = (process.env.LLM_CONSENSUS_MODELS || '').split(',').map(entry => entry.trim()).filter(Boolean);
+  if (models.length > 0) {
+    const clients = models
+      .map(entry => {
+        const [provider, ...model] = entry.split(':'); // model names like llama3.1:8b keep their colon
+        return createProviderClient(provider, model.join(':') || undefined);
+      })
+      .filter((client): client is LlmClient => client !== null);
+    return clients.length > 1 ? clients : [];
+  }
+
+  const samples = Math.floor(Number(process.env.LLM_CONSENSUS_SAMPLES) || 1);
+  const llm = getLlmClient();
+  return llm && samples > 1 ? Array.from({ length: samples }, () => llm) : [];
+}
+
+function primaryProvider(): string {
+  return (process.env.LLM_PROVIDER || 'gemini').trim().toLowerCase();
+}
+
+// A provider's API key or base URL. LLM_API_KEY and LLM_BASE_URL belong to the primary LLM_PROVIDER;
+// other consensus providers only read their own GEMINI_*, OPENAI_* or LOCAL_* settings.
+function providerSetting(provider: string, setting: 'API_KEY' | 'BASE_URL'): string | undefined {
+  const own = process.env[`${provider.toUpperCase()}_${setting}`]?.trim();
+  const generic = provider === primaryProvider() ? process.env[`LLM_${setting}`]?.trim() : undefined;
+  return generic || own || undefined;
+}
+
+// Requests are scheduled per provider endpoint and key; the mock has no rate limits to respect
+function scheduled(client: LlmClient, baseUrl = '', apiKey = ''): LlmClient {
+  return client.name === 'mock' ? client : withScheduling(client, getSharedScheduler(`${client.name} ${baseUrl} ${apiKey}`));
+}
+
+function createProviderClient(providerName: string, modelName?: string): LlmClient | null {
+  const provider = providerName.trim().toLowerCase();
+  const model = modelName?.trim();
+  const apiKey = providerSetting(provider, 'API_KEY');
+  const baseUrl = providerSetting(provider, 'BASE_URL');
+
+  switch (provider) {
+    case 'gemini':
+      return apiKey ? scheduled(createGeminiClient(apiKey, model || 'gemini-2.0-flash'), '', apiKey) : null;
+    case 'openai': {
+      if (!apiKey && !baseUrl) return null;
+      const url = baseUrl || 'https://api.openai.com/v1';
+      return scheduled(createOpenAiClient({ name: 'openai', baseUrl: url, model: model || 'gpt-4o-mini', apiKey }), url, apiKey);
+    }
+    case 'local': {
+      // OpenAI-compatible local server, Ollama by default
+      const url = baseUrl || 'http://localhost:11434/v1';
+      return scheduled(createOpenAiClient({ name: 'local', baseUrl: url, model: model || 'llama3.1', apiKey }), url, apiKey);
+    }
+    case 'mock':
+      return createMockClient();
+    default:
+      console.warn(`Unknown LLM provider "${provider}"`);
+      return null;
+  }
+}
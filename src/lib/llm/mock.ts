@@ -0,0 +1,109 @@
+import type { LlmClient } from './types';
+import { detectKnownEntities } from '@/lib/entities';
+import { classifyEventType } from '@/lib/events';
+
+const SENTIMENTS = ['Bullish', 'Bearish', 'Neutral', 'Mixed'] as const;
+const REGIONS = ['Americas', 'Europe', 'Asia', 'Middle East', 'Africa'] as const;
+
+// Deterministic canned responses so the whole pipeline can run offline (tests, demos).
+// Output depends only on the prompt, so repeated runs give identical results.
+export function createMockClient(): LlmClient {
+  return {
+    name: 'mock',
+    model: 'mock',
+    async generate(prompt, options = {}) {
+      switch (options.task) {
+        case 'analysis':
+          return JSON.stringify({ analyses: mockAnalyses(prompt) });
+        case 'translation':
+          return JSON.stringify({ translations: mockTranslations(prompt) });
+        default:
+          return mockSummary(prompt);
+      }
+    },
+  };
+}
+
+// Numbered article lines ("3. "Title" - Source ...") as they appear in the analysis prompts
+function numberedTitles(prompt: string): { num: number; title: string }[] {
+  return [...prompt.matchAll(/^(\d+)\. "(.+?)"/gm)].map(m => ({ num: Number(m[1]), title: m[2] }));
+}
+
+// Asset ids from the prompt's "implications" template
+function implicationIds(prompt: string): string[] {
+  const template = prompt.match(/"implications": \{([^}]*)\}/)?.[1] || '';
+  return [...template.matchAll(/"(\w+)":/g)].map(m => m[1]);
+}
+
+function mockAnalyses(prompt: string) {
+  const assetIds = implicationIds(prompt);
+  return numberedTitles(prompt).map(({ num, title }, i) => {
+    const hash = simpleHash(title);
+    const sentiment = SENTIMENTS[hash % SENTIMENTS.length];
+    const score = sentiment === 'Bullish' ? 0.5 : sentiment === 'Bearish' ? -0.5 : 0;
+    return {
+      articleNum: i + 1,
+      index: num, // /api/analyze numbers articles by their request index
+      region: REGIONS[hash % REGIONS.length],
+      eventType: classifyEventType(title),
+      summary: `Mock analysis of "${title}"`,
+      overallSentiment: sentiment,
+      keyInsight: 'Generated by the mock LLM provider',
+      causalChain: [
+        { stage: 'Political event', description: title },
+        { stage: 'Economic impact', description: 'Mock economic effect' },
+        { stage: 'Market impact', description: 'Mock market effect', sector: 'Financials', tickers: ['XLF'] },
+      ],
+      impactScore: score,
+      probability: 0.5,
+      entities: detectKnownEntities(title),
+      sectors: [
+        {
+          sector: 'Financials',
+          impact: sentiment === 'Mixed' ? 'Uncertain' : sentiment,
+          reasoning: 'Mock reasoning',
+          tickers: ['XLF'],
+          timeframe: 'Short-term',
+          confidence: 'Low',
+          score,
+          probability: 0.4,
+        },
+      ],
+      implications: Object.fromEntries(assetIds.map((id, j) => [id, j === 0 ? sentiment : 'Neutral'])),
+    };
+  });
+}
+
+// Echo titles and descriptions back unchanged
+function mockTranslations(prompt: string) {
+  const titles = [...prompt.matchAll(/^Title: (.*)$/gm)].map(m => m[1]);
+  const descriptions = [...prompt.matchAll(/^Description: (.*)$/gm)].map(m => m[1]);
+  return titles.map((title, i) => ({
+    articleNum: i + 1,
+    title,
+    description: descriptions[i] === '(none)' ? '' : descriptions[i] || '',
+  }));
+}
+
+function mockSummary(prompt: string): string {
+  const headlines = prompt.match(/^\d+\. ".+?"/gm)?.length || 0;
+  return `**TOP STORIES**
+Mock briefing covering ${headlines} market-moving headlines.
+
+**MARKET SENTIMENT**
+Sentiment figures are generated by the mock LLM provider.
+
+**RISKS & OPPORTUNITIES**
+No real analysis was performed.
+
+**OUTLOOK**
+Switch LLM_PROVIDER to a real provider for live briefings.`;
+}
+
+function simpleHash(text: string): number {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+}
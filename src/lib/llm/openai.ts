@@ -0,0 +1,41 @@
+import type { LlmClient } from './types';
+import { LlmRequestError, parseRetryAfter } from './errors';
+
+interface OpenAiClientConfig {
+  name: string;
+  baseUrl: string; // e.g. https://api.openai.com/v1 or http://localhost:11434/v1
+  model: string;
+  apiKey?: string; // local servers usually don't need one
+}
+
+// Any server implementing the OpenAI chat completions API: OpenAI itself, Ollama, llama.cpp, vLLM...
+export function createOpenAiClient({ name, baseUrl, model, apiKey }: OpenAiClientConfig): LlmClient {
+  return {
+    name,
+    model,
+    async generate(prompt, options = {}) {
+      const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          temperature: options.temperature ?? 0.3,
+          max_tokens: options.maxOutputTokens ?? 4096,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`${name} API error response:`, errorText);
+        throw new LlmRequestError(`${name} API error: ${response.status}`, response.status, parseRetryAfter(response.headers.get('retry-after')));
+      }
+
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content || '';
+    },
+  };
+}
@@ -0,0 +1,162 @@
+import type { LlmClient, ThrottleEvent } from './types';
+import { LlmRequestError, isRetryableError } from './errors';
+
+export interface SchedulerConfig {
+  concurrency: number; // max requests in flight; halved on 429 and grown back on success
+  requestsPerMinute: number; // token bucket refill rate, 0 disables rate limiting
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface Scheduler {
+  run<T>(task: () => Promise<T>, onThrottle?: (event: ThrottleEvent) => void): Promise<T>;
+}
+
+const SUCCESSES_PER_STEP = 5; // consecutive successes before concurrency grows by one
+
+// Read LLM_CONCURRENCY, LLM_REQUESTS_PER_MINUTE and LLM_MAX_RETRIES
+export function getSchedulerConfig(): SchedulerConfig {
+  return {
+    concurrency: Math.max(1, readNumber('LLM_CONCURRENCY', 3)),
+    requestsPerMinute: Math.max(0, readNumber('LLM_REQUESTS_PER_MINUTE', 60)),
+    maxRetries: Math.max(0, readNumber('LLM_MAX_RETRIES', 4)),
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+  };
+}
+
+// Concurrency limit + token bucket + retries with exponential backoff and jitter.
+// A 429 halves concurrency and pauses every request for its Retry-After.
+export function createScheduler(config: SchedulerConfig): Scheduler {
+  let limit = config.concurrency;
+  let active = 0;
+  let successes = 0;
+  let pausedUntil = 0;
+  const waiting: (() => void)[] = [];
+
+  // Bucket holds up to `concurrency` tokens so a fresh scan can start a full round at once
+  let tokens = config.concurrency;
+  let lastRefill = Date.now();
+
+  async function acquireSlot() {
+    if (active < limit) {
+      active++;
+      return;
+    }
+    // The releasing request hands its slot over, see releaseSlot
+    await new Promise<void>(resolve => waiting.push(resolve));
+  }
+
+  function releaseSlot() {
+    active--;
+    fillSlots();
+  }
+
+  function fillSlots() {
+    while (active < limit && waiting.length > 0) {
+      active++;
+      waiting.shift()!();
+    }
+  }
+
+  // Milliseconds until a token is available, taking one if it already is
+  function takeToken(): number {
+    if (config.requestsPerMinute === 0) return 0;
+    const now = Date.now();
+    tokens = Math.min(config.concurrency, tokens + (now - lastRefill) * config.requestsPerMinute / 60000);
+    lastRefill = now;
+    if (tokens >= 1) {
+      tokens -= 1;
+      return 0;
+    }
+    return Math.ceil((1 - tokens) * 60000 / config.requestsPerMinute);
+  }
+
+  async function waitForTurn(onThrottle?: (event: ThrottleEvent) => void) {
+    for (;;) {
+      const pause = pausedUntil - Date.now();
+      const waitMs = pause > 0 ? pause : takeToken();
+      if (waitMs <= 0) return;
+      onThrottle?.({ reason: pause > 0 ? 'retry-after' : 'rate-limit', waitMs, concurrency: limit });
+      await sleep(waitMs);
+    }
+  }
+
+  function onSuccess() {
+    successes++;
+    if (limit < config.concurrency && successes >= SUCCESSES_PER_STEP) {
+      limit++;
+      successes = 0;
+      fillSlots();
+    }
+  }
+
+  function onRateLimited(retryAfterMs?: number) {
+    limit = Math.max(1, Math.floor(limit / 2));
+    successes = 0;
+    if (retryAfterMs) pausedUntil = Math.max(pausedUntil, Date.now() + retryAfterMs);
+  }
+
+  // Exponential backoff with equal jitter: half fixed, half random
+  function backoff(attempt: number): number {
+    const delay = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+    return Math.round(delay / 2 + Math.random() * delay / 2);
+  }
+
+  return {
+    async run(task, onThrottle) {
+      for (let attempt = 0; ; attempt++) {
+        let delayMs: number;
+        await acquireSlot();
+        try {
+          await waitForTurn(onThrottle);
+          const result = await task();
+          onSuccess();
+          return result;
+        } catch (err) {
+          if (!isRetryableError(err) || attempt >= config.maxRetries) throw err;
+
+          const status = err instanceof LlmRequestError ? err.status : undefined;
+          const retryAfterMs = err instanceof LlmRequestError ? err.retryAfterMs : undefined;
+          if (status === 429) onRateLimited(retryAfterMs);
+          delayMs = retryAfterMs ?? backoff(attempt);
+          onThrottle?.({ reason: 'backoff', waitMs: delayMs, attempt: attempt + 1, status, concurrency: limit });
+        } finally {
+          releaseSlot();
+        }
+        await sleep(delayMs);
+      }
+    },
+  };
+}
+
+const sharedSchedulers = new Map<string, Scheduler>();
+
+// One process-wide scheduler per key. Provider limits are per API key, so clients sharing a key
+// share a scheduler and a 429 from one provider doesn't stall requests to another.
+export function getSharedScheduler(key: string): Scheduler {
+  let scheduler = sharedSchedulers.get(key);
+  if (!scheduler) {
+    scheduler = createScheduler(getSchedulerConfig());
+    sharedSchedulers.set(key, scheduler);
+  }
+  return scheduler;
+}
+
+export function withScheduling(client: LlmClient, scheduler: Scheduler = getSharedScheduler('default')): LlmClient {
+  return {
+    ...client,
+    generate: (prompt, options = {}) =>
+      scheduler.run(() => client.generate(prompt, options), options.onThrottle),
+  };
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && !isNaN(value) ? value : fallback;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,25 @@
+// What a pipeline step is asking for - lets the mock provider shape its canned output
+export type LlmTask = 'analysis' | 'translation' | 'summary';
+
+// Reported while a request waits on the rate limiter or backs off after a failure
+export interface ThrottleEvent {
+  reason: 'rate-limit' | 'retry-after' | 'backoff';
+  waitMs: number;
+  attempt?: number; // retry number, for backoffs
+  status?: number; // HTTP status that caused the backoff
+  concurrency: number; // current adaptive concurrency limit
+}
+
+export interface GenerateOptions {
+  task?: LlmTask;
+  temperature?: number;
+  maxOutputTokens?: number;
+  onThrottle?: (event: ThrottleEvent) => void;
+}
+
+// A provider adapter turns a prompt into the model's raw text response
+export interface LlmClient {
+  name: string;
+  model: string;
+  generate(prompt: string, options?: GenerateOptions): Promise<string>;
+}
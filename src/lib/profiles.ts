@@ -0,0 +1,41 @@
+import { SEARCH_QUERIES, mergeQueries, normalizeQueries, type SearchQuery } from './queries';
+import { getQueryProfile, getQueryProfiles } from './supabase';
+
+interface ResolveQueriesOptions {
+  profileId?: string | null;
+  queries?: string | null; // JSON-encoded SearchQuery[] for profiles not stored in Supabase
+}
+
+export interface ResolvedQueries {
+  queries: SearchQuery[];
+  profile: string;
+}
+
+// Work out which queries a scan should run: an explicit profile, inline queries,
+// every enabled stored profile, and finally the built-in defaults
+export async function resolveScanQueries({ profileId, queries }: ResolveQueriesOptions = {}): Promise<ResolvedQueries> {
+  if (profileId) {
+    const profile = await getQueryProfile(profileId);
+    const profileQueries = normalizeQueries(profile?.queries);
+    if (profile && profileQueries.length > 0) {
+      return { queries: profileQueries, profile: profile.name };
+    }
+  }
+
+  if (queries) {
+    try {
+      const inlineQueries = normalizeQueries(JSON.parse(queries));
+      if (inlineQueries.length > 0) return { queries: inlineQueries, profile: 'Custom' };
+    } catch (err) {
+      console.error('Invalid queries parameter:', err);
+    }
+  }
+
+  const enabledProfiles = (await getQueryProfiles()).filter(p => p.enabled);
+  const enabledQueries = mergeQueries(...enabledProfiles.map(p => normalizeQueries(p.queries)));
+  if (enabledQueries.length > 0) {
+    return { queries: enabledQueries, profile: enabledProfiles.map(p => p.name).join(', ') };
+  }
+
+  return { queries: SEARCH_QUERIES, profile: 'Default' };
+}
@@ -0,0 +1,213 @@
+import type { Article } from './types';
+import type { LlmClient, LlmTask } from './llm';
+import { languageName } from './languages';
+import { CAUSAL_STAGES, CONFIDENCES, IMPACTS, REGIONS, SECTORS, SENTIMENTS, TIMEFRAMES } from './validation';
+import { ENTITY_TYPES } from './entities';
+import { EVENT_TYPES } from './events';
+import type { MacroAsset } from './assets';
+
+// A named prompt with its generation settings. Bump `version` whenever the wording or
+// output format changes - the version is stored with every analysis and keys the cache.
+export interface PromptTemplate<TInput> {
+  name: string;
+  version: number;
+  task: LlmTask;
+  temperature: number;
+  maxOutputTokens: number;
+  render(input: TInput): string;
+}
+
+// Template identifier at the start of every analysis version, e.g. "analysis@v7"
+export function promptVersion(template: Pick<PromptTemplate<unknown>, 'name' | 'version'>): string {
+  return `${template.name}@v${template.version}`;
+}
+
+// Render a template and send it with the template's generation settings
+export function runPrompt<TInput>(llm: LlmClient, template: PromptTemplate<TInput>, input: TInput): Promise<string> {
+  return llm.generate(template.render(input), {
+    task: template.task,
+    temperature: template.temperature,
+    maxOutputTokens: template.maxOutputTokens,
+  });
+}
+
+const analysis: PromptTemplate<{ articles: Article[]; excerpts: string[]; assets: MacroAsset[] }> = {
+  name: 'analysis',
+  // v1: the original scan-stream prompt, without Real Estate, Utilities or Communications
+  // v2: shared with /api/analyze; v3: numeric impact scores and probabilities; v4: named entities
+  // v5: event type; v6: structured causal chain; v7: configurable asset implications
+  version: 7,
+  task: 'analysis',
+  temperature: 0.3,
+  maxOutputTokens: 8192,
+  render: ({ articles, excerpts, assets }) => `You are a senior financial analyst specializing in macroeconomic and geopolitical analysis. Analyze these ${articles.length} political/economic news articles for market impact.
+
+Be specific about which sectors, companies and indices could be affected. Think through the reasoning chain: Political Event → Economic Impact → Market Impact.
+
+Articles:
+${articles.map((a, i) => `${i + 1}. "${a.title}" - ${a.source}${a.category ? ` [${a.category}]` : ''}${a.originalTitle ? ` (translated from ${languageName(a.language)})` : ''}${excerpts[i] ? `\n   Excerpt: ${excerpts[i]}` : ''}`).join('\n')}
+
+IMPORTANT: You MUST provide analysis for ALL ${articles.length} articles. Return exactly ${articles.length} analyses in the same order.
+
+Respond with ONLY valid JSON (no markdown):
+{
+  "analyses": [
+    {
+      "articleNum": 1,
+      "region": "${REGIONS.join('|')}",
+      "eventType": "${EVENT_TYPES.join('|')}",
+      "summary": "Brief market impact (1-2 sentences)",
+      "overallSentiment": "${SENTIMENTS.join('|')}",
+      "keyInsight": "Key trading insight or action point",
+      "causalChain": [
+        { "stage": "Political event", "description": "What happened" },
+        { "stage": "Economic impact", "description": "How it changes costs, demand, rates or trade" },
+        { "stage": "Market impact", "description": "How that moves the sector", "sector": "Technology", "tickers": ["NVDA", "SMH"] }
+      ],
+      "impactScore": 0.6,
+      "probability": 0.7,
+      "entities": [
+        { "name": "European Central Bank", "type": "${ENTITY_TYPES.join('|')}" }
+      ],
+      "sectors": [
+        {
+          "sector": "${SECTORS.join('|')}",
+          "impact": "${IMPACTS.join('|')}",
+          "reasoning": "Why this sector is affected",
+          "tickers": ["AAPL", "XLK"],
+          "timeframe": "${TIMEFRAMES.join('|')}",
+          "confidence": "${CONFIDENCES.join('|')}",
+          "score": 0.8,
+          "probability": 0.7
+        }
+      ],
+      "implications": {
+${assets.map(a => `        "${a.id}": "${SENTIMENTS.join('|')}"`).join(',\n')}
+      }
+    }
+  ]
+}
+
+causalChain: the reasoning behind the summary, one node per step, in order. Stages: ${CAUSAL_STAGES.join(' → ')}; add extra Economic impact steps for multi-step effects, and end with one Market impact node per key sector.
+eventType: the kind of event the article reports - "Trade action" covers tariffs, export controls and trade deals; "Fiscal package" covers budgets, stimulus and tax changes; "Political crisis" covers resignations, impeachments, protests and shutdowns. Use "Other" only if nothing fits.
+Timeframes: Short-term (days-weeks), Medium-term (weeks-months), Long-term (months-years).
+impactScore and score: signed magnitude from -1 (strongly bearish) through 0 (no effect) to 1 (strongly bullish), consistent with the sentiment/impact label.
+probability: 0 to 1, how likely the impact is to materialize.
+implications: the likely direction of each asset - ${assets.map(a => `${a.id}: ${a.description}`).join('; ')}.
+entities: the countries, political figures, parties, central banks, other institutions and named bills or regulations the story is about. Use full official names (e.g. "European Central Bank" not "ECB", "CHIPS and Science Act" not "CHIPS Act"); an empty array if none.
+Include relevant ETFs alongside individual tickers (e.g., XLF for financials, XLE for energy, QQQ for tech).`,
+};
+
+const analysisRepair: PromptTemplate<{ items: { article: Article; raw: unknown; errors: string[] }[]; assets: MacroAsset[] }> = {
+  name: 'analysis-repair',
+  version: 2,
+  task: 'analysis',
+  temperature: 0.1,
+  maxOutputTokens: 4096,
+  render: ({ items, assets }) => `Your previous analyses of these news articles did not match the required schema. Return corrected analyses.
+
+${items.map(({ article, raw, errors }, i) => `${i + 1}. "${article.title}" - ${article.source}${article.category ? ` [${article.category}]` : ''}
+   Previous output: ${raw === undefined ? '(missing)' : JSON.stringify(raw)}
+   Problems: ${errors.join('; ')}`).join('\n\n')}
+
+Allowed values:
+- region: ${REGIONS.join(', ')}
+- eventType: ${EVENT_TYPES.join(', ')}
+- overallSentiment: ${SENTIMENTS.join(', ')}
+- sectors[].sector: ${SECTORS.join(', ')}
+- sectors[].impact: ${IMPACTS.join(', ')}
+- sectors[].timeframe: ${TIMEFRAMES.join(', ')}
+- sectors[].confidence: ${CONFIDENCES.join(', ')}
+- impactScore and sectors[].score: numbers from -1 to 1; probability and sectors[].probability: numbers from 0 to 1
+- summary must be a non-empty string, sectors[].tickers an array of ticker symbols
+- causalChain: ordered array of { "stage", "description" } with stage one of ${CAUSAL_STAGES.join(', ')}, ending in Market impact nodes with "sector" and "tickers"
+- entities: array of { "name", "type" } with type one of ${ENTITY_TYPES.join(', ')}
+- implications: object with keys ${assets.map(a => a.id).join(', ')}, each one of ${SENTIMENTS.join(', ')}
+
+Respond with ONLY valid JSON (no markdown), one entry per article above, in the same format as before:
+{
+  "analyses": [
+    { "articleNum": 1, "region": "...", "eventType": "...", "summary": "...", "overallSentiment": "...", "keyInsight": "...", "entities": [], "sectors": [], "implications": { ${assets.map(a => `"${a.id}": "Neutral"`).join(', ')} } }
+  ]
+}`,
+};
+
+const translation: PromptTemplate<{ articles: Article[] }> = {
+  name: 'translation',
+  version: 1,
+  task: 'translation',
+  temperature: 0.1,
+  maxOutputTokens: 4096,
+  render: ({ articles }) => `Translate these news headlines and descriptions into English. Keep names, tickers and numbers exact.
+
+${articles.map((a, i) => `${i + 1}. [${languageName(a.language)}]
+Title: ${a.title}
+Description: ${a.description || '(none)'}`).join('\n\n')}
+
+Respond with ONLY valid JSON (no markdown):
+{
+  "translations": [
+    { "articleNum": 1, "title": "English title", "description": "English description" }
+  ]
+}`,
+};
+
+export interface SummaryPromptInput {
+  articleCount: number;
+  bullishCount: number;
+  bearishCount: number;
+  mixedCount: number;
+  sectorSummary: string;
+  headlines: string;
+  watchlist?: string[];
+}
+
+const summary: PromptTemplate<SummaryPromptInput> = {
+  name: 'summary',
+  version: 1,
+  task: 'summary',
+  temperature: 0.4,
+  maxOutputTokens: 1024,
+  render: ({ articleCount, bullishCount, bearishCount, mixedCount, sectorSummary, headlines, watchlist }) => {
+    const watchlistInfo = watchlist && watchlist.length > 0
+      ? `\n\nUser's Watchlist Tickers: ${watchlist.join(', ')}`
+      : '';
+
+    return `You are a senior financial analyst writing a daily market briefing. Based on today's political and economic news analysis, write a professional executive summary.
+
+DATA:
+- Total articles analyzed: ${articleCount}
+- Bullish signals: ${bullishCount}
+- Bearish signals: ${bearishCount}
+- Mixed/Uncertain signals: ${mixedCount}
+- Sector breakdown: ${sectorSummary}
+${watchlistInfo}
+
+TOP MARKET-MOVING HEADLINES:
+${headlines}
+
+Write a 4-paragraph executive summary in this EXACT format:
+
+**TOP STORIES**
+[Paragraph 1: Highlight the 3 most significant market-moving stories and their immediate implications. Be specific about sectors and potential price impacts.]
+
+**MARKET SENTIMENT**
+[Paragraph 2: Analyze the overall market sentiment. Which sectors show the strongest signals? What's driving bullish vs bearish sentiment today?]
+
+**RISKS & OPPORTUNITIES**
+[Paragraph 3: Identify key risks to monitor and potential opportunities. Include specific sectors or asset classes to watch.]
+
+${watchlist && watchlist.length > 0 ? `**WATCHLIST INSIGHTS**
+[Paragraph 4: Provide specific insights for the user's watchlist tickers (${watchlist.join(', ')}). How might today's news affect these positions?]` : '**OUTLOOK**\n[Paragraph 4: Brief forward-looking statement about near-term market direction based on today\'s analysis.]'}
+
+Keep paragraphs concise (2-3 sentences each). Use professional financial language. Be specific with sector names and potential impacts.`;
+  },
+};
+
+// Every prompt the app sends, by name
+export const PROMPTS = {
+  analysis,
+  analysisRepair,
+  translation,
+  summary,
+};
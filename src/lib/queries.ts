@@ -0,0 +1,45 @@
+export interface SearchQuery {
+  query: string;
+  pageSize: number;
+  category: string;
+}
+
+// Default queries - fewer requests to avoid timeouts
+export const SEARCH_QUERIES: SearchQuery[] = [
+  // Financial/Economic (priority)
+  { query: 'Federal Reserve ECB interest rates monetary policy', pageSize: 40, category: 'Economy' },
+  { query: 'stock market earnings trade tariffs sanctions', pageSize: 35, category: 'Markets' },
+  { query: 'tech regulation AI policy defense spending energy', pageSize: 35, category: 'Policy' },
+  // Political
+  { query: 'US Congress European Union China geopolitics', pageSize: 40, category: 'Politics' },
+];
+
+// Categories downstream region and sector inference understands
+export const QUERY_CATEGORIES = ['Economy', 'Markets', 'Policy', 'Politics'] as const;
+
+const MAX_PAGE_SIZE = 100;
+
+// Sanitize user-supplied queries (from profiles or request params)
+export function normalizeQueries(input: unknown): SearchQuery[] {
+  if (!Array.isArray(input)) return [];
+
+  return input
+    .filter((q): q is Partial<SearchQuery> => typeof q === 'object' && q !== null)
+    .filter(q => typeof q.query === 'string' && q.query.trim().length > 0)
+    .map(q => ({
+      query: q.query!.trim(),
+      pageSize: Math.min(Math.max(Math.round(Number(q.pageSize) || 20), 1), MAX_PAGE_SIZE),
+      category: QUERY_CATEGORIES.includes(q.category as typeof QUERY_CATEGORIES[number]) ? q.category! : 'Markets',
+    }));
+}
+
+// Combine queries from several profiles, dropping repeated query strings
+export function mergeQueries(...lists: SearchQuery[][]): SearchQuery[] {
+  const seen = new Set<string>();
+  return lists.flat().filter(q => {
+    const key = q.query.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,276 @@
+import { createHash } from 'crypto';
+import type { AnalyzedArticle, Article } from './types';
+import type { SearchQuery } from './queries';
+import { LlmRequestError, getSchedulerConfig, type LlmClient, type ThrottleEvent } from './llm';
+import { fetchArticles, type NewsSource } from './sources';
+import { getArticleExcerpt } from './extraction';
+import { getRecentAnalyses, getScanWatermark, getStoredAnalyses, setScanWatermark, storeAnalyses } from './analysis-store';
+import { cacheAnalyses, getCachedAnalyses, withCachedAnalysis, type CachedAnalysis } from './analysis-cache';
+import { translateArticles } from './translation';
+import type { MacroAsset } from './assets';
+import { analyzeBatchConsensus } from './consensus';
+import { ANALYSIS_UNAVAILABLE, analysisVersion, analyzeBatch, createFallbackAnalysis, isFallbackAnalysis, type ValidatedArticle } from './analysis';
+
+const INCREMENTAL_OVERLAP_MS = 30 * 60 * 1000; // NewsAPI can index articles a while after publication
+const RECENT_WINDOW_MS = 24 * 60 * 60 * 1000; // cached stories older than this drop out of incremental scans
+
+export interface ScanOptions {
+  llm: LlmClient | null; // null analyzes everything offline
+  consensus?: LlmClient[]; // several clients analyze each batch and are merged by vote; empty for one-shot analysis
+  sources: NewsSource[];
+  queries: SearchQuery[];
+  profile: string;
+  languages: string[];
+  assets: MacroAsset[]; // macro assets each analysis assesses
+  fullScan?: boolean;
+  since?: string | null;
+  windowFrom?: string;
+  windowTo?: string;
+}
+
+export interface ScanWindow {
+  from: string | null;
+  to: string;
+  historical: boolean;
+}
+
+export interface ScanResult {
+  articles: AnalyzedArticle[];
+  total: number;
+  failed: number;
+  window: ScanWindow;
+}
+
+// Receives the same events the SSE stream sends to the browser
+export type ScanEventHandler = (event: string, data: unknown) => void;
+
+// Fetch → translate → analyze, reusing stored and cached analyses. Shared by the
+// streaming route and scheduled server-side scans.
+export async function runScan(options: ScanOptions, send: ScanEventHandler = () => {}): Promise<ScanResult> {
+  const { llm, consensus = [], sources, queries, profile, languages, assets, fullScan, since, windowFrom, windowTo } = options;
+  const historical = Boolean(windowFrom || windowTo);
+
+  // Phase 1: Fetch all articles
+  send('status', { phase: 'fetching', message: `Fetching news articles (${profile})...`, sources: sources.map(s => s.name), profile });
+
+  // Historical scans fetch their window; live incremental scans only what was published since the last
+  // complete scan of the same queries, sources and languages
+  const scope = scanScope(queries, sources, languages);
+  const startedAt = new Date().toISOString();
+  const lastScan = fullScan || historical ? null : since || await getScanWatermark(scope);
+  const from = historical
+    ? windowFrom
+    : lastScan ? new Date(new Date(lastScan).getTime() - INCREMENTAL_OVERLAP_MS).toISOString() : undefined;
+  const to = windowTo;
+  const fetchedArticles = await fetchArticles(sources, queries, { from, to, languages });
+
+  // Reuse stored analyses for URLs already seen with this prompt version, keeping the fresh outlet and
+  // credibility data
+  const version = analysisVersion(assets, consensus);
+  const storedAnalyses = fullScan ? new Map<string, AnalyzedArticle>() : await getStoredAnalyses(fetchedArticles.map(a => a.url), version);
+  const cachedByUrl = new Map<string, AnalyzedArticle>();
+  if (from && !historical) {
+    const recent = await getRecentAnalyses(version, scope, 100, new Date(Date.now() - RECENT_WINDOW_MS).toISOString());
+    recent.forEach(a => cachedByUrl.set(a.url, a));
+  }
+  for (const article of fetchedArticles) {
+    const stored = storedAnalyses.get(article.url);
+    if (stored) cachedByUrl.set(article.url, { ...stored, ...article });
+  }
+
+  const sortedArticles = [
+    ...cachedByUrl.values(),
+    ...fetchedArticles.filter(a => !cachedByUrl.has(a.url)),
+  ]
+    .sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime())
+    .slice(0, 100);
+
+  // Unseen URLs whose content was already analyzed with this prompt version and assets skip the LLM too.
+  // Ids hash the original text, so the lookup comes before translation and hits carry their translation.
+  const unseenArticles = sortedArticles.filter(a => !cachedByUrl.has(a.url));
+  const contentCache = fullScan
+    ? new Map<string, CachedAnalysis>()
+    : await getCachedAnalyses(unseenArticles.map(a => a.id), version);
+  const contentCacheHits = unseenArticles
+    .filter(a => contentCache.has(a.id))
+    .map(a => withCachedAnalysis(a, contentCache.get(a.id)!));
+  if (!historical) await storeAnalyses(contentCacheHits, scope);
+
+  const cachedArticles = [
+    ...sortedArticles.filter(a => cachedByUrl.has(a.url)).map(a => cachedByUrl.get(a.url)!),
+    ...contentCacheHits,
+  ];
+
+  // Translate the remaining foreign-language articles before analysis
+  const untranslated = unseenArticles.filter(a => !contentCache.has(a.id));
+  if (untranslated.some(a => a.language !== 'en')) {
+    send('status', { phase: 'translating', message: 'Translating foreign-language articles...' });
+  }
+  const newArticles = llm ? await translateArticles(untranslated, llm) : untranslated;
+
+  // Send all articles as pending
+  const pendingArticles = [...cachedArticles, ...newArticles]
+    .sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime());
+  send('articles', {
+    articles: pendingArticles,
+    total: sortedArticles.length,
+    status: 'pending'
+  });
+
+  const analyzedArticles: AnalyzedArticle[] = [];
+  let failedCount = 0;
+
+  // Cached articles are emitted straight away
+  for (const article of cachedArticles) {
+    analyzedArticles.push(article);
+    send('analyzed', {
+      article,
+      cached: true,
+      progress: { current: analyzedArticles.length, total: sortedArticles.length }
+    });
+  }
+
+  // Phase 2: Analyze only new articles, in small batches
+  send('status', {
+    phase: 'analyzing',
+    message: !llm
+      ? 'No LLM configured - analyzing articles offline...'
+      : cachedArticles.length
+        ? `Analyzing ${newArticles.length} new articles (${cachedArticles.length} cached)...`
+        : 'Analyzing articles...',
+    total: sortedArticles.length,
+    cached: cachedArticles.length,
+    incremental: Boolean(from) && !historical,
+  });
+
+  // Without an LLM every new article gets the offline lexicon analysis. These are fallbacks, so they
+  // are neither stored nor cached and a later scan with an LLM analyzes them properly.
+  if (!llm) {
+    for (const article of newArticles) {
+      analyzedArticles.push(createFallbackAnalysis(article, ANALYSIS_UNAVAILABLE, assets));
+      send('analyzed', {
+        article: analyzedArticles[analyzedArticles.length - 1],
+        offline: true,
+        progress: { current: analyzedArticles.length, total: sortedArticles.length }
+      });
+    }
+    return {
+      articles: analyzedArticles,
+      total: sortedArticles.length,
+      failed: 0,
+      window: { from: from || null, to: to || new Date().toISOString(), historical },
+    };
+  }
+
+  const batchSize = 5; // Small batches for faster streaming
+  const batches: Article[][] = [];
+  for (let i = 0; i < newArticles.length; i += batchSize) {
+    batches.push(newArticles.slice(i, i + batchSize));
+  }
+
+  // Surface rate limiting and backoffs as progress events, one per wait
+  const reportThrottling = (client: LlmClient): LlmClient => ({
+    ...client,
+    generate: (prompt, generateOptions) => client.generate(prompt, {
+      ...generateOptions,
+      onThrottle: event => send('status', {
+        phase: 'throttled',
+        message: throttleMessage(event),
+        throttle: event,
+      }),
+    }),
+  });
+  const scanLlm = reportThrottling(llm);
+  const consensusLlms = consensus.map(reportThrottling);
+  const analyze = (batch: Article[], excerpts: string[]) => consensusLlms.length > 1
+    ? analyzeBatchConsensus(batch, excerpts, consensusLlms, assets)
+    : analyzeBatch(batch, excerpts, scanLlm, assets);
+
+  const analyzeOne = async (batch: Article[]) => {
+    // Pull article bodies once per batch so the model sees the policy details, not just the headline
+    const excerpts = await Promise.all(batch.map(a => getArticleExcerpt(a)));
+
+    let analyzedBatch: ValidatedArticle[] = [];
+    try {
+      analyzedBatch = await analyze(batch, excerpts);
+    } catch (err) {
+      console.error('Batch analysis error:', err);
+      // HTTP failures were already retried by the scheduler; give malformed responses one more try
+      if (!(err instanceof LlmRequestError)) {
+        try {
+          analyzedBatch = await analyze(batch, excerpts);
+        } catch (retryErr) {
+          console.error('Batch analysis error (retry):', retryErr);
+        }
+      }
+    }
+
+    // If all retries failed, create fallback analysis
+    if (analyzedBatch.length === 0) {
+      analyzedBatch = batch.map(article => ({
+        article: createFallbackAnalysis(article, ANALYSIS_UNAVAILABLE, assets),
+        validation: { status: 'invalid' as const, issues: ['analysis request failed'] },
+      }));
+      failedCount += batch.length;
+    }
+
+    // Keep real analyses for later scans; fallbacks should be retried next time
+    const successful = analyzedBatch.map(a => a.article).filter(a => !isFallbackAnalysis(a));
+    // Backfilled articles stay out of the live store so they don't move the incremental starting point
+    if (!historical) await storeAnalyses(successful, scope);
+    await cacheAnalyses(successful, version);
+
+    // Send each analyzed article with its schema validation outcome
+    for (const { article, validation } of analyzedBatch) {
+      analyzedArticles.push(article);
+      send('analyzed', {
+        article,
+        validation,
+        progress: { current: analyzedArticles.length, total: sortedArticles.length }
+      });
+    }
+  };
+
+  // Several batches in flight at once; the LLM scheduler enforces the actual limits
+  const workers = Math.min(getSchedulerConfig().concurrency, batches.length);
+  let nextBatch = 0;
+  await Promise.all(Array.from({ length: workers }, async () => {
+    while (nextBatch < batches.length) {
+      await analyzeOne(batches[nextBatch++]);
+    }
+  }));
+
+  // Log failures
+  if (failedCount > 0) {
+    console.warn(`${failedCount} articles could not be analyzed`);
+  }
+
+  // Only a scan that analyzed everything moves the starting point; otherwise failed articles are refetched
+  if (!historical && failedCount === 0) await setScanWatermark(scope, startedAt);
+
+  return {
+    articles: analyzedArticles,
+    total: sortedArticles.length,
+    failed: failedCount,
+    window: { from: from || null, to: to || new Date().toISOString(), historical },
+  };
+}
+
+// Order-insensitive key for what a scan covers
+function scanScope(queries: SearchQuery[], sources: NewsSource[], languages: string[]): string {
+  const parts = [
+    queries.map(q => q.query.toLowerCase()).sort(),
+    sources.map(s => s.name).sort(),
+    [...languages].sort(),
+  ];
+  return createHash('sha256').update(JSON.stringify(parts)).digest('hex').substring(0, 16);
+}
+
+function throttleMessage(event: ThrottleEvent): string {
+  const seconds = Math.ceil(event.waitMs / 1000);
+  if (event.reason === 'backoff') {
+    return `LLM request failed${event.status ? ` (${event.status})` : ''}, retrying in ${seconds}s (attempt ${event.attempt})...`;
+  }
+  if (event.reason === 'retry-after') return `Rate limited by the LLM provider, resuming in ${seconds}s...`;
+  return `Throttling LLM requests, next slot in ${seconds}s...`;
+}
@@ -0,0 +1,255 @@
+import { SYMBOLS, findMentionedSymbols } from './tickers';
+
+// Offline sentiment engine - scores headlines with a weighted finance/political lexicon so scans
+// still produce usable analyses without an LLM.
+
+// Term weights from -3 (strongly bearish) to 3 (strongly bullish). Multi-word entries win over
+// their parts ("rate cut" vs "cut"); single words also match their inflections ("surged", "rallies").
+const LEXICON: Record<string, number> = {
+  // Markets
+  surge: 2, soar: 2.5, rally: 2, gain: 1, rise: 1, jump: 1.5, climb: 1, boost: 1.5, rebound: 1.5,
+  recover: 1, recovery: 1.5, growth: 1, grow: 1, profit: 1, beat: 1, outperform: 1.5, upgrade: 1.5,
+  bullish: 2, optimism: 1.5, optimistic: 1.5, strong: 1, stronger: 1, robust: 1, expand: 1, expansion: 1,
+  'record high': 2, 'all-time high': 2, 'beat expectations': 1.5, higher: 0.5,
+  fall: -1, drop: -1, decline: -1, slide: -1, sink: -1.5, tumble: -2, slump: -2, plunge: -2.5, crash: -3,
+  loss: -1, lose: -1, miss: -1, weak: -1, weaker: -1, downgrade: -1.5, bearish: -2, pessimism: -1.5,
+  selloff: -2, 'sell-off': -2, volatility: -1, volatile: -1, lower: -0.5, 'record low': -2, 'missed expectations': -1.5,
+  // Economy
+  recession: -2.5, contraction: -1.5, slowdown: -1.5, stagflation: -2.5, inflation: -0.5, unemployment: -1,
+  layoff: -1.5, 'job cuts': -1.5, bankruptcy: -2.5, default: -2.5, debt: -0.5, deficit: -0.5,
+  stimulus: 1.5, 'rate cut': 1.5, easing: 1, 'rate hike': -1, tightening: -1, hiring: 1, 'soft landing': 1.5,
+  'cut rates': 1.5, 'cut interest rates': 1.5, 'raise rates': -1, 'raise interest rates': -1,
+  'hike rates': -1, 'hike interest rates': -1,
+  // Politics and geopolitics
+  crisis: -2, war: -2, conflict: -1.5, attack: -2, invasion: -2.5, escalation: -1.5, escalate: -1.5,
+  tension: -1, threat: -1, threaten: -1, sanction: -1, tariff: -1, 'trade war': -2, embargo: -1.5,
+  ban: -1, probe: -1, lawsuit: -1, shutdown: -1.5, unrest: -1.5, protest: -0.5, coup: -2.5, collapse: -2.5,
+  uncertainty: -1, uncertain: -1, fear: -1.5, concern: -1, worry: -1, warn: -1.5, risk: -0.5, disruption: -1,
+  deal: 1, agreement: 1, ceasefire: 1.5, truce: 1.5, 'peace talks': 1, breakthrough: 1.5, approve: 0.5,
+  'trade deal': 1.5, relief: 1, ease: 0.5, stabilize: 1, stable: 0.5, support: 0.5,
+};
+
+// Irregular past tenses and participles, the most common headline verbs ("yields fell", "exports rose")
+const IRREGULAR_FORMS: Record<string, string> = {
+  fell: 'fall', fallen: 'fall', rose: 'rise', risen: 'rise', sank: 'sink', sunk: 'sink', grew: 'grow', grown: 'grow',
+  lost: 'lose', slid: 'slide', beaten: 'beat',
+};
+
+// Flip the next sentiment term within the scope ("not expected to fall")
+const NEGATORS = new Set(['not', 'no', 'never', 'neither', 'nor', 'without', 'hardly', 'barely', 'fail', 'fails', 'failed']);
+const NEGATION_SCOPE = 3; // tokens
+const NEGATION_FACTOR = -0.5; // negated terms are weaker than their opposites ("not falling" ≠ "rising")
+
+// Scale the nearest sentiment term
+const INTENSIFIERS: Record<string, number> = {
+  very: 1.3, sharply: 1.5, steeply: 1.5, significantly: 1.3, substantially: 1.3, dramatically: 1.5,
+  extremely: 1.5, massive: 1.4, huge: 1.4, sharp: 1.4, deep: 1.3, deepening: 1.3, biggest: 1.4,
+  slightly: 0.5, modestly: 0.6, marginally: 0.5, somewhat: 0.7, mildly: 0.6, modest: 0.6, slight: 0.5,
+};
+
+// Sector cues; a * ending a word matches any ending ("semiconductor*" → "semiconductors", "cut* rate*" → "cuts rates")
+const SECTOR_TERMS: Record<string, string[]> = {
+  'Technology': ['tech', 'technology', 'ai', 'artificial intelligence', 'software', 'chip*', 'semiconductor*', 'cloud', 'cyber*', 'data center*', 'smartphone*'],
+  'Financials': ['bank', 'banks', 'banking', 'lender*', 'interest rate*', 'rate cut*', 'rate hike*', 'cut* rate*', 'raise* rate*', 'hike* rate*', 'central bank*', 'ecb', 'loan*', 'credit', 'federal reserve', 'fomc', 'yield*', 'bond*', 'insurer*', 'fintech', 'crypto*', 'bitcoin'],
+  'Energy': ['oil', 'gas', 'crude', 'opec', 'energy', 'lng', 'refiner*', 'pipeline*', 'drilling', 'renewable*', 'solar', 'nuclear', 'uranium', 'coal'],
+  'Healthcare': ['health*', 'drug*', 'pharma*', 'fda', 'medical', 'vaccine*', 'hospital*', 'biotech*', 'medicare', 'medicaid'],
+  'Defense': ['defense', 'defence', 'military', 'pentagon', 'weapon*', 'nato', 'missile*', 'arms', 'war', 'troops'],
+  'Industrials': ['manufactur*', 'industrial*', 'factory', 'factories', 'infrastructure', 'airline*', 'aerospace', 'shipping', 'freight', 'railroad*', 'logistics'],
+  'Consumer': ['retail*', 'consumer*', 'spending', 'shoppers', 'automaker*', 'car', 'cars', 'ev', 'evs', 'e-commerce', 'restaurant*'],
+  'Real Estate': ['housing', 'mortgage*', 'real estate', 'property', 'properties', 'homebuilder*', 'reit*', 'rent', 'rents'],
+  'Utilities': ['utility', 'utilities', 'electricity', 'power grid', 'grid'],
+  'Materials': ['steel', 'aluminum', 'aluminium', 'lithium', 'rare earth*', 'mining', 'miner*', 'copper', 'chemical*', 'fertilizer*'],
+  'Communications': ['telecom*', 'media', 'broadband', '5g', 'streaming', 'advertising'],
+  'Commodities': ['gold', 'silver', 'commodit*', 'wheat', 'corn', 'soybean*', 'grain*', 'platinum', 'palladium'],
+};
+
+// Cues that only count capitalized, matched against the original text ("the Fed", not "fed up")
+const CASE_SENSITIVE_SECTOR_TERMS: Record<string, string[]> = {
+  'Financials': ['Fed'],
+};
+
+// Terms that mean something different for a sector than for the market as a whole - war is bad
+// for stocks but good for defense contractors and gold. These replace the general weights.
+const SECTOR_OVERRIDES: Record<string, Record<string, number>> = {
+  'Defense': { war: 2, conflict: 1.5, attack: 1.5, invasion: 2, tension: 1, threat: 1, threaten: 1, escalation: 1.5, escalate: 1.5, 'defense spending': 2 },
+  'Energy': { sanction: 1, embargo: 1.5, disruption: 1.5, 'output cut': 2, 'supply cut': 2, 'production cut': 2 },
+  'Commodities': { war: 1.5, crisis: 1.5, uncertainty: 1, inflation: 1, 'rate cut': 1.5, 'cut rates': 1.5, 'cut interest rates': 1.5, fear: 1, tension: 1 },
+};
+
+// Representative ETF per sector, used when no company is named
+const SECTOR_ETFS: Record<string, string> = {
+  'Technology': 'XLK', 'Financials': 'XLF', 'Healthcare': 'XLV', 'Energy': 'XLE', 'Defense': 'ITA',
+  'Industrials': 'XLI', 'Consumer': 'XLY', 'Real Estate': 'XLRE', 'Utilities': 'XLU', 'Materials': 'XLB',
+  'Communications': 'XLC', 'Commodities': 'GLD',
+};
+
+const NORMALIZATION_ALPHA = 15; // how quickly summed weights approach ±1
+const TITLE_WEIGHT = 1.5; // headlines carry the story's main claim
+
+export interface SentimentHit {
+  term: string; // as it appeared, including negators and intensifiers
+  weight: number; // after negation and intensifiers
+}
+
+export interface TextSentiment {
+  score: number; // -1..1
+  positive: number; // summed positive weights
+  negative: number; // summed negative weights, as a positive number
+  hits: SentimentHit[];
+}
+
+export interface SectorSignal {
+  sector: string;
+  terms: string[]; // sector cues found in the text
+  tickers: string[]; // named companies in the sector, or the sector ETF
+  score: number; // -1..1, the text score with sector-specific weights
+}
+
+// Lowercased words plus clause punctuation, which ends negation scope
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().replace(/[’‘]/g, "'").match(/[\p{L}\p{N}][\p{L}\p{N}'.-]*[\p{L}\p{N}]|[\p{L}\p{N}]|[.,;:!?]/gu) || [])
+    .map(token => token.replace(/'s$/, ''));
+}
+
+// Score a title and optional body; the title counts for more
+export function scoreSentiment(title: string, body = '', lexicon: Record<string, number> = LEXICON): TextSentiment {
+  const hits = [
+    ...scoreTokens(tokenize(title), lexicon).map(hit => ({ ...hit, weight: Math.round(hit.weight * TITLE_WEIGHT * 100) / 100 })),
+    ...scoreTokens(tokenize(body), lexicon),
+  ];
+  const sum = hits.reduce((total, hit) => total + hit.weight, 0);
+  return {
+    score: normalize(sum),
+    positive: hits.filter(h => h.weight > 0).reduce((total, h) => total + h.weight, 0),
+    negative: -hits.filter(h => h.weight < 0).reduce((total, h) => total + h.weight, 0),
+    hits,
+  };
+}
+
+// Sectors a text is about, from sector cues and named companies, strongest evidence first
+export function inferSectors(title: string, body = ''): SectorSignal[] {
+  const text = `${title}. ${body}`;
+  const tokens = tokenize(text);
+  const companies = findMentionedSymbols(text);
+  const general = scoreSentiment(title, body).score;
+
+  const signals: (SectorSignal & { strength: number })[] = [];
+  for (const [sector, terms] of Object.entries(SECTOR_TERMS)) {
+    const matched = [
+      ...terms.filter(term => containsTerm(tokens, term)),
+      ...(CASE_SENSITIVE_SECTOR_TERMS[sector] || []).filter(term => new RegExp(`\\b${term}\\b`).test(text)),
+    ];
+    const named = companies.filter(c => c.sector === sector).map(c => c.symbol);
+    if (matched.length === 0 && named.length === 0) continue;
+
+    const overrides = SECTOR_OVERRIDES[sector];
+    const etf = SYMBOLS.some(s => s.symbol === SECTOR_ETFS[sector]) ? [SECTOR_ETFS[sector]] : [];
+
+    signals.push({
+      sector,
+      terms: matched.map(term => term.replace(/\*/g, '')),
+      tickers: named.length > 0 ? named : etf,
+      score: overrides ? scoreSentiment(title, body, { ...LEXICON, ...overrides }).score : general,
+      strength: matched.length + named.length * 2,
+    });
+  }
+
+  return signals
+    .sort((a, b) => b.strength - a.strength)
+    .map(({ sector, terms, tickers, score }) => ({ sector, terms, tickers, score }));
+}
+
+// Walk the tokens matching lexicon entries (longest phrase first) and apply negation and intensifiers
+function scoreTokens(tokens: string[], lexicon: Record<string, number>): SentimentHit[] {
+  const hits: SentimentHit[] = [];
+  let negateUntil = -1;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (/^[.,;:!?]$/.test(token)) {
+      negateUntil = -1;
+      continue;
+    }
+    if (NEGATORS.has(token) || token.endsWith("n't")) {
+      negateUntil = i + NEGATION_SCOPE;
+      continue;
+    }
+
+    const match = matchLexicon(tokens, i, lexicon);
+    if (!match) continue;
+
+    let weight = match.weight;
+    const words = tokens.slice(i, i + match.length);
+    // Intensifiers up to two tokens before ("very sharp drop") or right after ("fell sharply")
+    for (const j of [i - 2, i - 1, i + match.length]) {
+      const factor = INTENSIFIERS[tokens[j]];
+      if (!factor) continue;
+      weight *= factor;
+      if (j < i) words.unshift(tokens[j]);
+      else words.push(tokens[j]);
+    }
+    if (i <= negateUntil) {
+      weight *= NEGATION_FACTOR;
+      words.unshift('not');
+      negateUntil = -1;
+    }
+
+    hits.push({ term: words.join(' '), weight: Math.round(weight * 100) / 100 });
+    i += match.length - 1;
+  }
+  return hits;
+}
+
+function matchLexicon(tokens: string[], i: number, lexicon: Record<string, number>): { weight: number; length: number } | null {
+  for (const length of [3, 2]) {
+    const phrase = tokens.slice(i, i + length);
+    if (phrase.length < length) continue;
+    // Phrases match inflections of their first and last words too ("beats expectations", "rate cuts")
+    const middle = phrase.slice(1, -1).map(word => `${word} `).join('');
+    for (const first of stems(phrase[0])) {
+      for (const last of stems(phrase[length - 1])) {
+        const weight = lexicon[`${first} ${middle}${last}`];
+        if (weight !== undefined) return { weight, length };
+      }
+    }
+  }
+  for (const stem of stems(tokens[i])) {
+    if (lexicon[stem] !== undefined) return { weight: lexicon[stem], length: 1 };
+  }
+  return null;
+}
+
+// The token and plausible base forms: "rallies" → rally, "surged" → surge, "dropped" → drop
+function stems(token: string): string[] {
+  const forms = [token];
+  const add = (form: string) => { if (form.length >= 2 && !forms.includes(form)) forms.push(form); };
+  if (IRREGULAR_FORMS[token]) add(IRREGULAR_FORMS[token]);
+  if (token.endsWith('ies') || token.endsWith('ied')) add(`${token.slice(0, -3)}y`);
+  if (token.endsWith('es')) add(token.slice(0, -2));
+  if (token.endsWith('s')) add(token.slice(0, -1));
+  if (token.endsWith('ed')) {
+    add(token.slice(0, -2));
+    add(token.slice(0, -1));
+    if (token.at(-3) === token.at(-4)) add(token.slice(0, -3));
+  }
+  if (token.endsWith('ing')) {
+    add(token.slice(0, -3));
+    add(`${token.slice(0, -3)}e`);
+    if (token.at(-4) === token.at(-5)) add(token.slice(0, -4));
+  }
+  return forms;
+}
+
+// Whole-word (or whole-phrase) match; a * ending a word allows any ending
+function containsTerm(tokens: string[], term: string): boolean {
+  const words = term.split(' ');
+  return tokens.some((_, i) => words.every((word, j) => {
+    const token = tokens[i + j];
+    if (token === undefined) return false;
+    return word.endsWith('*') ? token.startsWith(word.slice(0, -1)) : token === word;
+  }));
+}
+
+function normalize(sum: number): number {
+  return Math.round((sum / Math.sqrt(sum * sum + NORMALIZATION_ALPHA)) * 100) / 100;
+}
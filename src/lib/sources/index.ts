@@ -0,0 +1,81 @@
+import type { Article } from '@/lib/types';
+import { clusterArticles } from '@/lib/clustering';
+import { getStoryCredibility } from '@/lib/credibility';
+import type { SearchQuery } from '@/lib/queries';
+import type { NewsSource, SourceFetchOptions } from './types';
+import { createNewsApiSource } from './newsapi';
+import { createFileSource } from './file';
+import { createRssSource, getConfiguredFeeds } from './rss';
+
+export type { NewsSource, SourceFetchOptions } from './types';
+
+interface FetchArticlesOptions extends SourceFetchOptions {
+  limit?: number;
+}
+
+// Build the enabled sources from NEWS_SOURCES (comma-separated, defaults to newsapi).
+// Pass `only` to restrict a scan to a subset of the configured sources.
+export function getNewsSources(only?: string[]): NewsSource[] {
+  const names = (process.env.NEWS_SOURCES || 'newsapi')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(name => name && (!only?.length || only.includes(name)));
+
+  const sources: NewsSource[] = [];
+  for (const name of names) {
+    switch (name) {
+      case 'newsapi':
+        if (process.env.NEWS_API_KEY) sources.push(createNewsApiSource(process.env.NEWS_API_KEY));
+        break;
+      case 'file':
+        if (process.env.NEWS_FILE_PATH) sources.push(createFileSource(process.env.NEWS_FILE_PATH));
+        break;
+      case 'rss': {
+        const feeds = getConfiguredFeeds();
+        if (feeds.length > 0) sources.push(createRssSource(feeds));
+        break;
+      }
+      default:
+        console.warn(`Unknown news source "${name}" ignored`);
+    }
+  }
+  return sources;
+}
+
+// Fetch from all sources in parallel, then deduplicate, cluster near-duplicate stories,
+// rate source credibility, sort newest first and limit
+export async function fetchArticles(
+  sources: NewsSource[],
+  queries: SearchQuery[],
+  { limit = 100, ...options }: FetchArticlesOptions = {}
+): Promise<Article[]> {
+  const results = await Promise.all(
+    sources.map(async source => {
+      try {
+        return await source.fetchArticles(queries, options);
+      } catch (err) {
+        console.error(`Error fetching from source "${source.name}":`, err);
+        return [];
+      }
+    })
+  );
+
+  const seenUrls = new Set<string>();
+  const allArticles: Article[] = [];
+
+  for (const articles of results) {
+    for (const article of articles) {
+      if (options.from && new Date(article.publishedAt) < new Date(options.from)) continue;
+      if (options.to && new Date(article.publishedAt) > new Date(options.to)) continue;
+      if (!seenUrls.has(article.url) && article.title && article.title !== '[Removed]') {
+        seenUrls.add(article.url);
+        allArticles.push(article);
+      }
+    }
+  }
+
+  const sortedArticles = allArticles.sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime());
+  return clusterArticles(sortedArticles)
+    .slice(0, limit)
+    .map(article => ({ ...article, credibility: getStoryCredibility(article) }));
+}
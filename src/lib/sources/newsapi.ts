@@ -0,0 +1,53 @@
+import type { Article } from '@/lib/types';
+import { articleId } from '@/lib/hash';
+import type { NewsSource } from './types';
+
+interface RawArticle {
+  title: string;
+  source: { name: string };
+  url: string;
+  publishedAt: string;
+  description: string;
+}
+
+export function createNewsApiSource(apiKey: string): NewsSource {
+  return {
+    name: 'newsapi',
+    async fetchArticles(queries, options = {}) {
+      const languages = options.languages?.length ? options.languages : ['en'];
+      const requests = queries.flatMap(query => languages.map(language => ({ ...query, language })));
+
+      const fetchPromises = requests.map(async ({ query, pageSize, category, language }): Promise<Article[]> => {
+        try {
+          const response = await fetch(
+            `https://newsapi.org/v2/everything?q=${encodeURIComponent(query)}&pageSize=${pageSize}&language=${encodeURIComponent(language)}&sortBy=publishedAt${options.from ? `&from=${encodeURIComponent(options.from)}` : ''}${options.to ? `&to=${encodeURIComponent(options.to)}` : ''}&apiKey=${apiKey}`,
+            options.revalidate ? { next: { revalidate: options.revalidate } } : { cache: 'no-store' }
+          );
+
+          if (!response.ok) {
+            console.error(`NewsAPI error for query "${query}" (${language}): ${response.status}`);
+            return [];
+          }
+
+          const data = await response.json();
+          return (data.articles || []).map((article: RawArticle) => ({
+            id: articleId(article.url, article.title, article.description),
+            title: article.title,
+            source: article.source?.name || 'Unknown',
+            url: article.url,
+            publishedAt: article.publishedAt,
+            description: article.description || '',
+            category,
+            language,
+          }));
+        } catch (err) {
+          console.error(`Error fetching query "${query}":`, err);
+          return [];
+        }
+      });
+
+      const results = await Promise.all(fetchPromises);
+      return results.flat();
+    },
+  };
+}
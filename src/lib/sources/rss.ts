@@ -0,0 +1,127 @@
+import type { Article } from '@/lib/types';
+import { htmlToText, truncate } from '@/lib/html';
+import { articleId } from '@/lib/hash';
+import type { NewsSource } from './types';
+
+export interface FeedConfig {
+  name: string;
+  url: string;
+  category: string;
+  language?: string;
+}
+
+// Official feeds subscribed to when RSS_FEEDS is not set
+export const DEFAULT_FEEDS: FeedConfig[] = [
+  { name: 'Federal Reserve', url: 'https://www.federalreserve.gov/feeds/press_all.xml', category: 'Economy' },
+  { name: 'ECB', url: 'https://www.ecb.europa.eu/rss/press.html', category: 'Economy' },
+];
+
+const MAX_ITEMS_PER_FEED = 20;
+
+// Feeds are subscriptions rather than searches, so every feed is read regardless of the queries
+export function createRssSource(feeds: FeedConfig[]): NewsSource {
+  return {
+    name: 'rss',
+    async fetchArticles(_queries, options = {}) {
+      const fetchPromises = feeds.map(async (feed): Promise<Article[]> => {
+        try {
+          const response = await fetch(
+            feed.url,
+            options.revalidate ? { next: { revalidate: options.revalidate } } : { cache: 'no-store' }
+          );
+
+          if (!response.ok) {
+            console.error(`Feed error for "${feed.name}": ${response.status}`);
+            return [];
+          }
+
+          // Items without any date would look like fresh news on every incremental scan and fall
+          // into every backfill window, so they are only kept by full scans (dated as fetched)
+          const items = parseFeed(await response.text())
+            .filter(item => item.publishedAt || !(options.from || options.to))
+            .slice(0, MAX_ITEMS_PER_FEED);
+          return items.map(item => ({
+            id: articleId(item.link, item.title, item.description),
+            title: item.title,
+            source: feed.name,
+            url: item.link,
+            publishedAt: item.publishedAt || new Date().toISOString(),
+            description: item.description,
+            category: feed.category,
+            language: feed.language || 'en',
+          }));
+        } catch (err) {
+          console.error(`Error fetching feed "${feed.name}":`, err);
+          return [];
+        }
+      });
+
+      const results = await Promise.all(fetchPromises);
+      return results.flat();
+    },
+  };
+}
+
+// Read feed configuration from RSS_FEEDS (a JSON array of FeedConfig)
+export function getConfiguredFeeds(): FeedConfig[] {
+  const raw = process.env.RSS_FEEDS;
+  if (!raw) return DEFAULT_FEEDS;
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) throw new Error('RSS_FEEDS must be a JSON array');
+    return parsed.filter((feed: Partial<FeedConfig>) => feed.name && feed.url && feed.category);
+  } catch (err) {
+    console.error('Invalid RSS_FEEDS configuration:', err);
+    return [];
+  }
+}
+
+interface FeedItem {
+  title: string;
+  link: string;
+  publishedAt: string | null; // the item's date, else the feed's lastBuildDate/updated; null if neither
+  description: string;
+}
+
+// Minimal RSS 2.0 / Atom parser - enough for press release feeds
+export function parseFeed(xml: string): FeedItem[] {
+  const isAtom = /<feed[\s>]/.test(xml) && !/<rss[\s>]/.test(xml);
+  const blocks = xml.match(isAtom ? /<entry[\s>][\s\S]*?<\/entry>/g : /<item[\s>][\s\S]*?<\/item>/g) || [];
+
+  // Channel-level date, read with the items stripped out
+  const channel = blocks.reduce((rest, block) => rest.replace(block, ''), xml);
+  const feedDate = parseDate(isAtom ? readTag(channel, 'updated') : readTag(channel, 'lastBuildDate') || readTag(channel, 'pubDate'));
+
+  return blocks
+    .map(block => {
+      const title = readTag(block, 'title');
+      const link = isAtom ? readAtomLink(block) : readTag(block, 'link') || readTag(block, 'guid');
+      const date = readTag(block, isAtom ? 'published' : 'pubDate') || readTag(block, 'updated') || readTag(block, 'dc:date');
+      const description = readTag(block, isAtom ? 'summary' : 'description') || readTag(block, 'content');
+
+      return {
+        title,
+        link,
+        publishedAt: parseDate(date) || feedDate,
+        description: truncate(description, 500),
+      };
+    })
+    .filter(item => item.title && item.link);
+}
+
+function parseDate(value: string): string | null {
+  const date = value ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date.toISOString() : null;
+}
+
+function readTag(block: string, tag: string): string {
+  const match = block.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`));
+  return match ? htmlToText(match[1]) : '';
+}
+
+function readAtomLink(block: string): string {
+  const links = block.match(/<link\s[^>]*>/g) || [];
+  const alternate = links.find(l => !/rel=/.test(l) || /rel=["']alternate["']/.test(l)) || links[0];
+  return alternate?.match(/href=["']([^"']+)["']/)?.[1] || '';
+}
@@ -0,0 +1,19 @@
+import type { Article } from '@/lib/types';
+import type { SearchQuery } from '@/lib/queries';
+
+export interface SourceFetchOptions {
+  // Seconds to let Next.js cache upstream responses; omit to always refetch
+  revalidate?: number;
+  // Only return articles published at or after this ISO timestamp
+  from?: string;
+  // Only return articles published at or before this ISO timestamp (historical scans)
+  to?: string;
+  // ISO 639-1 languages to request from sources that support it
+  languages?: string[];
+}
+
+// A news source adapter turns a set of search queries into articles
+export interface NewsSource {
+  name: string;
+  fetchArticles(queries: SearchQuery[], options?: SourceFetchOptions): Promise<Article[]>;
+}
@@ -0,0 +1,70 @@
+import type { LlmClient } from './llm';
+import { PROMPTS, runPrompt } from './prompts';
+
+// Article fields the briefing prompt uses
+export interface SummaryArticle {
+  title: string;
+  source: string;
+  region: string;
+  analysis?: {
+    summary?: string;
+    overallSentiment?: string;
+    sectors?: Array<{
+      sector: string;
+      impact: string;
+      tickers?: string[];
+    }>;
+  };
+}
+
+// Write the executive briefing for a scan; null when the LLM call fails
+export async function generateSummary(
+  articles: SummaryArticle[],
+  watchlist: string[] | undefined,
+  llm: LlmClient
+): Promise<string | null> {
+  // Prepare article summaries for the prompt
+  const topArticles = articles
+    .filter(a => a.analysis?.overallSentiment === 'Bullish' || a.analysis?.overallSentiment === 'Bearish')
+    .slice(0, 20);
+
+  const articleSummaries = topArticles.map((a, i) =>
+    `${i + 1}. "${a.title}" (${a.source}, ${a.region}) - ${a.analysis?.overallSentiment || 'Neutral'}${
+      a.analysis?.sectors?.length ? ` - Sectors: ${a.analysis.sectors.map(s => `${s.sector}:${s.impact}`).join(', ')}` : ''
+    }`
+  ).join('\n');
+
+  // Count sentiment
+  const bullishCount = articles.filter(a => a.analysis?.overallSentiment === 'Bullish').length;
+  const bearishCount = articles.filter(a => a.analysis?.overallSentiment === 'Bearish').length;
+  const mixedCount = articles.filter(a => a.analysis?.overallSentiment === 'Mixed').length;
+
+  // Get affected sectors
+  const sectorCounts: Record<string, { bullish: number; bearish: number }> = {};
+  articles.forEach(a => {
+    a.analysis?.sectors?.forEach(s => {
+      if (!sectorCounts[s.sector]) sectorCounts[s.sector] = { bullish: 0, bearish: 0 };
+      if (s.impact === 'Bullish') sectorCounts[s.sector].bullish++;
+      if (s.impact === 'Bearish') sectorCounts[s.sector].bearish++;
+    });
+  });
+
+  const sectorSummary = Object.entries(sectorCounts)
+    .map(([sector, counts]) => `${sector}: ${counts.bullish} bullish, ${counts.bearish} bearish`)
+    .join('; ');
+
+  try {
+    return await runPrompt(llm, PROMPTS.summary, {
+      articleCount: articles.length,
+      bullishCount,
+      bearishCount,
+      mixedCount,
+      sectorSummary,
+      headlines: articleSummaries,
+      watchlist,
+    });
+  } catch (err) {
+    console.error('Summary generation error:', err);
+    return null;
+  }
+}
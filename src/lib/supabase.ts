@@ -1,9 +1,12 @@
 import { createClient } from '@supabase/supabase-js';
+import type { SearchQuery } from './queries';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// Null when Supabase is not configured - createClient throws without a URL, and callers fall back
+// to local storage instead
+export const supabase = supabaseUrl && supabaseAnonKey ? createClient(supabaseUrl, supabaseAnonKey) : null;
 
 // Types for our database
 export interface ScanRecord {
@@ -11,10 +14,22 @@ export interface ScanRecord {
   created_at?: string;
   total_articles: number;
   sentiment_score: number;
-  americas_sentiment: number;
-  europe_sentiment: number;
-  asia_sentiment: number;
+  // Scans before region_breakdown - Asia also covered the Middle East and Africa
+  americas_sentiment?: number;
+  europe_sentiment?: number;
+  asia_sentiment?: number;
+  region_breakdown?: Record<string, BreakdownAggregate>; // keyed by region, every region present
+  country_breakdown?: Record<string, BreakdownAggregate>; // keyed by ISO country code
+  event_breakdown?: Record<string, BreakdownAggregate>; // keyed by event type
   summary_report?: string;
+  window_start?: string | null; // earliest publication time covered by the scan
+  window_end?: string; // latest publication time covered - "now" for live scans
+  backfill?: boolean;
+}
+
+export interface BreakdownAggregate {
+  articles: number;
+  sentiment: number; // -100 to 100, as sentiment_score
 }
 
 export interface WatchlistRecord {
@@ -25,9 +40,19 @@ export interface WatchlistRecord {
   updated_at?: string;
 }
 
+export interface QueryProfileRecord {
+  id?: string;
+  user_id?: string;
+  name: string;
+  queries: SearchQuery[];
+  enabled: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
 // Save a scan to Supabase
 export async function saveScan(scan: Omit<ScanRecord, 'id' | 'created_at'>): Promise<ScanRecord | null> {
-  if (!supabaseUrl || !supabaseAnonKey) return null;
+  if (!supabase) return null;
 
   try {
     const { data, error } = await supabase
@@ -47,14 +72,15 @@ export async function saveScan(scan: Omit<ScanRecord, 'id' | 'created_at'>): Pro
   }
 }
 
-// Get recent scans for the chart
+// Get recent scans for the chart, ordered by the period they cover so backfills slot into history
 export async function getRecentScans(limit = 20): Promise<ScanRecord[]> {
-  if (!supabaseUrl || !supabaseAnonKey) return [];
+  if (!supabase) return [];
 
   try {
     const { data, error } = await supabase
       .from('scans')
       .select('*')
+      .order('window_end', { ascending: false, nullsFirst: false })
       .order('created_at', { ascending: false })
       .limit(limit);
 
@@ -71,7 +97,7 @@ export async function getRecentScans(limit = 20): Promise<ScanRecord[]> {
 
 // Save watchlist to Supabase
 export async function saveWatchlist(tickers: string[], userId?: string): Promise<boolean> {
-  if (!supabaseUrl || !supabaseAnonKey) return false;
+  if (!supabase) return false;
 
   try {
     // Upsert based on user_id (or anonymous)
@@ -98,7 +124,7 @@ export async function saveWatchlist(tickers: string[], userId?: string): Promise
 
 // Get watchlist from Supabase
 export async function getWatchlist(userId?: string): Promise<string[]> {
-  if (!supabaseUrl || !supabaseAnonKey) return [];
+  if (!supabase) return [];
 
   try {
     const { data, error } = await supabase
@@ -122,7 +148,7 @@ export async function getWatchlist(userId?: string): Promise<string[]> {
 
 // Update scan with summary report
 export async function updateScanSummary(scanId: string, summaryReport: string): Promise<boolean> {
-  if (!supabaseUrl || !supabaseAnonKey) return false;
+  if (!supabase) return false;
 
   try {
     const { error } = await supabase
@@ -140,3 +166,98 @@ export async function updateScanSummary(scanId: string, summaryReport: string):
     return false;
   }
 }
+
+// Get query profiles from Supabase
+export async function getQueryProfiles(userId?: string): Promise<QueryProfileRecord[]> {
+  if (!supabase) return [];
+
+  try {
+    const { data, error } = await supabase
+      .from('query_profiles')
+      .select('*')
+      .eq('user_id', userId || 'anonymous')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching query profiles:', error);
+      return [];
+    }
+    return data || [];
+  } catch (err) {
+    console.error('Error fetching query profiles:', err);
+    return [];
+  }
+}
+
+// Get a single query profile by id
+export async function getQueryProfile(profileId: string): Promise<QueryProfileRecord | null> {
+  if (!supabase) return null;
+
+  try {
+    const { data, error } = await supabase
+      .from('query_profiles')
+      .select('*')
+      .eq('id', profileId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null;
+      console.error('Error fetching query profile:', error);
+      return null;
+    }
+    return data;
+  } catch (err) {
+    console.error('Error fetching query profile:', err);
+    return null;
+  }
+}
+
+// Create or update a query profile
+export async function saveQueryProfile(
+  profile: Omit<QueryProfileRecord, 'created_at' | 'updated_at'>,
+  userId?: string
+): Promise<QueryProfileRecord | null> {
+  if (!supabase) return null;
+
+  try {
+    const { data, error } = await supabase
+      .from('query_profiles')
+      .upsert({
+        ...profile,
+        user_id: userId || 'anonymous',
+        updated_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving query profile:', error);
+      return null;
+    }
+    return data;
+  } catch (err) {
+    console.error('Error saving query profile:', err);
+    return null;
+  }
+}
+
+// Delete a query profile
+export async function deleteQueryProfile(profileId: string): Promise<boolean> {
+  if (!supabase) return false;
+
+  try {
+    const { error } = await supabase
+      .from('query_profiles')
+      .delete()
+      .eq('id', profileId);
+
+    if (error) {
+      console.error('Error deleting query profile:', error);
+      return false;
+    }
+    return true;
+  } catch (err) {
+    console.error('Error deleting query profile:', err);
+    return false;
+  }
+}
@@ -0,0 +1,168 @@
+import symbolData from './symbols.json';
+import type { SectorImpact } from './types';
+
+export interface StockResult {
+  symbol: string;
+  name: string;
+  exchange: string;
+  type: string;
+  sector?: string; // bundled symbols only; unset for indices, bonds, currencies and country funds
+}
+
+interface YahooSearchResult {
+  symbol: string;
+  shortname?: string;
+  longname?: string;
+  exchDisp?: string;
+  typeDisp?: string;
+}
+
+// Local symbol universe: used for offline search and to verify LLM-suggested tickers
+export const SYMBOLS: StockResult[] = symbolData.symbols;
+
+// Common wrong or outdated symbols (FB, SPX, WTI...) and what they should be
+const ALIASES: Record<string, string> = symbolData.aliases;
+
+const symbolIndex = new Map(SYMBOLS.map(s => [s.symbol, s]));
+
+// Yahoo lookups by symbol; null when Yahoo has no exact match
+const yahooCache = new Map<string, StockResult | null>();
+
+// Search the local universe by symbol or name
+export function searchLocalSymbols(query: string, limit = 10): StockResult[] {
+  const q = query.toUpperCase();
+  return SYMBOLS.filter(
+    stock =>
+      stock.symbol.includes(q) ||
+      stock.name.toUpperCase().includes(q)
+  ).slice(0, limit);
+}
+
+// Corporate suffixes dropped to get the name companies go by in headlines ("Exxon Mobil")
+const NAME_SUFFIXES = /(,|\s)+(inc\.?|incorporated|corporation|corp\.?|company|co\.|group|holdings?|plc|p\.l\.c\.|limited|n\.v\.|s\.a\.|se|ag|a\/s|asa|oyj|class [a-c]|technologies|platforms|& co\.?|and company|& company)$/i;
+
+// Short names that are also common words ("Target", "Visa") only match in full
+const AMBIGUOUS_NAMES = new Set(['Target', 'Visa', 'Arm', 'Shell', 'Southern', 'Oracle', 'Vale', 'JD']);
+
+function headlineName(name: string): string {
+  let short = name.replace(/\.com\b/, '');
+  while (NAME_SUFFIXES.test(short)) short = short.replace(NAME_SUFFIXES, '');
+  return short.trim();
+}
+
+const companyPatterns = SYMBOLS
+  .filter(s => s.type === 'Equity' && s.sector && !/\b(ETF|Trust|Fund)\b/.test(s.name))
+  .map(s => {
+    const short = headlineName(s.name);
+    const name = AMBIGUOUS_NAMES.has(short) || (short.length < 4 && short !== short.toUpperCase()) ? s.name : short;
+    // Case-sensitive so "Apple" matches but "apple" doesn't; all-caps names also match as "Nvidia"
+    const variants = name.length >= 4 && name === name.toUpperCase() ? [name, name[0] + name.slice(1).toLowerCase()] : [name];
+    const alternatives = variants.map(v => v.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
+    return { stock: s, pattern: new RegExp(`(^|[^\\p{L}\\p{N}])(${alternatives})(?=$|[^\\p{L}\\p{N}])`, 'u') };
+  });
+
+// Symbols a text refers to: company names from the local universe, "$NVDA" and "(NASDAQ: NVDA)"
+export function findMentionedSymbols(text: string): StockResult[] {
+  const found = new Map<string, StockResult>();
+  for (const { stock, pattern } of companyPatterns) {
+    if (pattern.test(text)) found.set(stock.symbol, stock);
+  }
+  for (const match of text.matchAll(/(?:\$|\b(?:NYSE|NASDAQ|Nasdaq):\s*)([A-Z][A-Z.]{0,5})\b/g)) {
+    const stock = symbolIndex.get(match[1]) || symbolIndex.get(ALIASES[match[1]]);
+    if (stock) found.set(stock.symbol, stock);
+  }
+  return Array.from(found.values());
+}
+
+// Yahoo Finance symbol search; null when Yahoo is unreachable
+export async function searchYahoo(query: string, limit = 10): Promise<StockResult[] | null> {
+  try {
+    const response = await fetch(
+      `https://query1.finance.yahoo.com/v1/finance/search?q=${encodeURIComponent(query)}&quotesCount=${limit}&newsCount=0`,
+      {
+        headers: {
+          'User-Agent': 'Mozilla/5.0',
+        },
+        next: { revalidate: 3600 }, // Cache for 1 hour
+        signal: AbortSignal.timeout(5000),
+      }
+    );
+
+    if (!response.ok) return null;
+
+    const data = await response.json();
+    return (data.quotes || [])
+      .filter((q: YahooSearchResult) => q.symbol)
+      .slice(0, limit)
+      .map((q: YahooSearchResult) => ({
+        symbol: q.symbol,
+        name: q.longname || q.shortname || q.symbol,
+        exchange: q.exchDisp || 'Unknown',
+        type: q.typeDisp || 'Equity',
+      }));
+  } catch (error) {
+    console.error('Yahoo Finance API error:', error);
+    return null;
+  }
+}
+
+function isYahooLookupEnabled(): boolean {
+  return process.env.TICKER_LOOKUP !== 'local';
+}
+
+// Resolve one LLM-suggested ticker: a known symbol, an alias or company name that maps to one,
+// or null when it can't be verified
+export async function resolveTicker(ticker: string): Promise<StockResult | null> {
+  const symbol = ticker.trim().toUpperCase().replace(/^\$/, '');
+  if (!symbol) return null;
+
+  const known = symbolIndex.get(symbol) || symbolIndex.get(ALIASES[symbol]);
+  if (known) return known;
+
+  // Models sometimes return the company name instead of its symbol
+  const byName = SYMBOLS.filter(s => s.type === 'Equity' && s.name.toUpperCase().split(/[\s.,]+/)[0] === symbol);
+  if (byName.length === 1) return byName[0];
+
+  if (!isYahooLookupEnabled()) return null;
+  if (!yahooCache.has(symbol)) {
+    const results = await searchYahoo(symbol, 5);
+    // Don't cache outages - the next scan can try again
+    if (results === null) return null;
+    yahooCache.set(symbol, results.find(r => r.symbol.toUpperCase() === symbol) || null);
+  }
+  return yahooCache.get(symbol) || null;
+}
+
+// Split tickers into verified symbols and the ones that can't be verified.
+// Returns a note, prefixed with `label`, for every remapped or unverified ticker.
+export async function verifyTickers(
+  tickers: string[],
+  label: string
+): Promise<{ tickers: string[]; unverifiedTickers: string[]; notes: string[] }> {
+  const resolved = await Promise.all(tickers.map(resolveTicker));
+  const verified: string[] = [];
+  const unverifiedTickers: string[] = [];
+  const notes: string[] = [];
+
+  tickers.forEach((ticker, i) => {
+    const match = resolved[i];
+    if (!match) {
+      unverifiedTickers.push(ticker);
+      notes.push(`${label} ticker ${ticker} not found in symbol universe`);
+      return;
+    }
+    if (match.symbol !== ticker) notes.push(`${label} ticker ${ticker} remapped to ${match.symbol}`);
+    if (!verified.includes(match.symbol)) verified.push(match.symbol);
+  });
+
+  return { tickers: verified, unverifiedTickers, notes };
+}
+
+// Replace each sector's tickers with verified symbols and move the rest to `unverifiedTickers`
+export async function verifySectorTickers(sectors: SectorImpact[]): Promise<{ sectors: SectorImpact[]; notes: string[] }> {
+  const results = await Promise.all(sectors.map(sector => verifyTickers(sector.tickers, sector.sector)));
+  return {
+    sectors: sectors.map((sector, i) => ({ ...sector, tickers: results[i].tickers, unverifiedTickers: results[i].unverifiedTickers })),
+    notes: results.flatMap(r => r.notes),
+  };
+}
@@ -0,0 +1,52 @@
+import type { Article } from './types';
+import type { LlmClient } from './llm';
+import { PROMPTS, runPrompt } from './prompts';
+
+const BATCH_SIZE = 10;
+
+// Translate non-English titles and descriptions to English, keeping the originals.
+// Articles that cannot be translated are returned unchanged.
+export async function translateArticles<T extends Article>(articles: T[], llm: LlmClient): Promise<T[]> {
+  const foreign = articles.filter(a => a.language !== 'en' && !a.originalTitle);
+  if (foreign.length === 0) return articles;
+
+  const translated = new Map<string, { title: string; description: string }>();
+
+  for (let i = 0; i < foreign.length; i += BATCH_SIZE) {
+    const batch = foreign.slice(i, i + BATCH_SIZE);
+    try {
+      const results = await translateBatch(batch, llm);
+      batch.forEach((article, idx) => {
+        if (results[idx]?.title) translated.set(article.id, results[idx]);
+      });
+    } catch (err) {
+      console.error('Translation error:', err);
+    }
+  }
+
+  return articles.map(article => {
+    const translation = translated.get(article.id);
+    if (!translation) return article;
+    return {
+      ...article,
+      title: translation.title,
+      description: translation.description || article.description,
+      originalTitle: article.title,
+      originalDescription: article.description,
+    };
+  });
+}
+
+async function translateBatch(articles: Article[], llm: LlmClient): Promise<{ title: string; description: string }[]> {
+  const text = await runPrompt(llm, PROMPTS.translation, { articles });
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) throw new Error('No JSON in translation response');
+
+  const parsed = JSON.parse(jsonMatch[0]);
+  const translations: { articleNum?: number; title?: string; description?: string }[] = parsed.translations || [];
+
+  return articles.map((_, i) => {
+    const t = translations.find(tr => tr.articleNum === i + 1) || translations[i];
+    return { title: t?.title?.trim() || '', description: t?.description?.trim() || '' };
+  });
+}
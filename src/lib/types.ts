@@ -0,0 +1,101 @@
+// Shared types for articles flowing through the scan pipeline
+
+import type { SourceCredibility } from './credibility';
+
+// One outlet's copy of a story that was clustered with others
+export interface ArticleCoverage {
+  source: string;
+  url: string;
+  title: string;
+}
+
+export interface Article {
+  id: string;
+  title: string;
+  source: string;
+  url: string;
+  publishedAt: string;
+  description: string;
+  category: string;
+  language: string; // ISO 639-1 code of the text as published
+  originalTitle?: string; // set when title/description were translated to English
+  originalDescription?: string;
+  coveredBy?: ArticleCoverage[]; // all copies of the story, set when more than one outlet ran it
+  credibility?: SourceCredibility;
+}
+
+export type EntityType = 'country' | 'person' | 'party' | 'central_bank' | 'institution' | 'legislation';
+
+// Who or what a story is about, with canonical names so the same entity matches across articles
+export interface Entity {
+  name: string;
+  type: EntityType;
+}
+
+export type EventType =
+  | 'Election'
+  | 'Rate decision'
+  | 'Trade action'
+  | 'Sanctions'
+  | 'Fiscal package'
+  | 'Regulation'
+  | 'Legislation'
+  | 'Military conflict'
+  | 'Diplomatic summit'
+  | 'Court ruling'
+  | 'Political crisis'
+  | 'Economic data'
+  | 'Other';
+
+export type CausalStage = 'Political event' | 'Economic impact' | 'Market impact';
+
+// One node of an analysis' reasoning chain; market impact nodes name the sector and tickers affected
+export interface CausalStep {
+  stage: CausalStage;
+  description: string;
+  sector?: string;
+  tickers?: string[];
+  unverifiedTickers?: string[];
+}
+
+// How the samples behind a consensus analysis voted
+export interface AnalysisConsensus {
+  models: string[]; // provider/model of each sample that returned a valid analysis
+  votes: Record<string, number>; // overallSentiment label → samples
+  agreement: number; // 0-1, average share of samples agreeing with the merged sentiment and sector impacts
+  contested: boolean; // samples split between Bullish and Bearish, or agreement is low
+}
+
+export interface SectorImpact {
+  sector: string;
+  impact: 'Bullish' | 'Bearish' | 'Neutral' | 'Uncertain';
+  reasoning: string;
+  tickers: string[]; // verified symbols once checked against the symbol universe
+  unverifiedTickers?: string[]; // suggested tickers that could not be verified; unset on analyses from before verification
+  timeframe: 'Short-term' | 'Medium-term' | 'Long-term';
+  confidence: 'High' | 'Medium' | 'Low';
+  score?: number; // signed magnitude, -1 (strongly bearish) to 1 (strongly bullish)
+  probability?: number; // 0-1 likelihood the impact materializes
+}
+
+export interface AnalyzedArticle extends Article {
+  region: string;
+  countries?: string[]; // ISO 3166-1 alpha-2 codes of countries mentioned, most mentioned first
+  subregion?: string; // e.g. Southeast Asia, from the first mentioned country inside the region
+  promptVersion?: string; // prompt template and assets that produced the analysis, e.g. "analysis@v7:gold,oil"; unset for fallbacks
+  entities?: Entity[]; // unset on analyses from before entity extraction
+  eventType?: EventType; // unset on analyses from before event classification
+  analysis: {
+    summary: string;
+    sectors: SectorImpact[];
+    overallSentiment: 'Bullish' | 'Bearish' | 'Mixed' | 'Neutral';
+    keyInsight: string;
+    impactScore?: number; // signed magnitude, -1..1; older analyses only have the label
+    probability?: number; // 0-1
+    causalChain?: CausalStep[]; // ordered event → economy → market; unset on fallbacks and older analyses
+    consensus?: AnalysisConsensus; // only set when several samples or models were merged
+  };
+  // Asset id (see assets.ts) → Bullish, Bearish, Mixed or Neutral, for the assets the scan assessed.
+  // Older analyses use the fixed keys gold, silver, rareMinerals and stockMarkets.
+  implications: Record<string, string>;
+}
@@ -0,0 +1,421 @@
+import type { AnalyzedArticle, CausalStep, Entity, EventType, SectorImpact } from './types';
+import { confidenceProbability, labelScore } from './aggregation';
+import { ENTITY_TYPES, canonicalizeEntity, dedupeEntities } from './entities';
+import { EVENT_TYPES } from './events';
+import type { MacroAsset } from './assets';
+
+export const REGIONS = ['Americas', 'Europe', 'Asia', 'Middle East', 'Africa'] as const;
+export const SENTIMENTS: AnalyzedArticle['analysis']['overallSentiment'][] = ['Bullish', 'Bearish', 'Mixed', 'Neutral'];
+export const IMPACTS: SectorImpact['impact'][] = ['Bullish', 'Bearish', 'Neutral', 'Uncertain'];
+export const TIMEFRAMES: SectorImpact['timeframe'][] = ['Short-term', 'Medium-term', 'Long-term'];
+export const CONFIDENCES: SectorImpact['confidence'][] = ['High', 'Medium', 'Low'];
+export const CAUSAL_STAGES: CausalStep['stage'][] = ['Political event', 'Economic impact', 'Market impact'];
+export const SECTORS = [
+  'Technology', 'Financials', 'Healthcare', 'Energy', 'Defense', 'Industrials', 'Consumer',
+  'Real Estate', 'Utilities', 'Materials', 'Communications', 'Commodities',
+] as const;
+
+// Near-miss spellings, keyed by the lowercased letters-only form
+const SENTIMENT_ALIASES: Record<string, string> = {
+  positive: 'Bullish', bull: 'Bullish', up: 'Bullish',
+  negative: 'Bearish', bear: 'Bearish', down: 'Bearish',
+  uncertain: 'Mixed', unclear: 'Mixed', volatile: 'Mixed',
+  none: 'Neutral', flat: 'Neutral',
+};
+const SECTOR_ALIASES: Record<string, string> = {
+  tech: 'Technology', informationtechnology: 'Technology', it: 'Technology', semiconductors: 'Technology', software: 'Technology',
+  financial: 'Financials', financialservices: 'Financials', finance: 'Financials', banks: 'Financials', banking: 'Financials',
+  health: 'Healthcare', pharma: 'Healthcare', pharmaceuticals: 'Healthcare', biotech: 'Healthcare',
+  oilgas: 'Energy', oilandgas: 'Energy', oil: 'Energy',
+  defence: 'Defense', aerospacedefense: 'Defense', aerospaceanddefense: 'Defense', military: 'Defense',
+  industrial: 'Industrials', manufacturing: 'Industrials', transportation: 'Industrials',
+  consumerdiscretionary: 'Consumer', consumerstaples: 'Consumer', retail: 'Consumer',
+  property: 'Real Estate', housing: 'Real Estate', reits: 'Real Estate',
+  utility: 'Utilities',
+  material: 'Materials', basicmaterials: 'Materials', mining: 'Materials', metals: 'Materials',
+  communication: 'Communications', communicationservices: 'Communications', telecom: 'Communications', telecommunications: 'Communications', media: 'Communications',
+  commodity: 'Commodities', preciousmetals: 'Commodities', agriculture: 'Commodities',
+};
+const TIMEFRAME_ALIASES: Record<string, string> = {
+  short: 'Short-term', nearterm: 'Short-term', immediate: 'Short-term', shortrun: 'Short-term',
+  medium: 'Medium-term', midterm: 'Medium-term', intermediate: 'Medium-term',
+  long: 'Long-term', longrun: 'Long-term', structural: 'Long-term',
+};
+const CONFIDENCE_ALIASES: Record<string, string> = {
+  strong: 'High', veryhigh: 'High',
+  moderate: 'Medium', med: 'Medium', mid: 'Medium',
+  weak: 'Low', verylow: 'Low',
+};
+const ENTITY_TYPE_ALIASES: Record<string, string> = {
+  nation: 'country', state: 'country',
+  politician: 'person', politicalfigure: 'person', leader: 'person', official: 'person', people: 'person',
+  politicalparty: 'party',
+  centralbanks: 'central_bank', monetaryauthority: 'central_bank',
+  organization: 'institution', organisation: 'institution', agency: 'institution', regulator: 'institution', government: 'institution',
+  bill: 'legislation', law: 'legislation', act: 'legislation', regulation: 'legislation', policy: 'legislation', treaty: 'legislation',
+};
+const CAUSAL_STAGE_ALIASES: Record<string, string> = {
+  event: 'Political event', political: 'Political event', politics: 'Political event', trigger: 'Political event', cause: 'Political event',
+  economic: 'Economic impact', economy: 'Economic impact', economiceffect: 'Economic impact', macro: 'Economic impact',
+  market: 'Market impact', markets: 'Market impact', marketeffect: 'Market impact', sector: 'Market impact', sectorimpact: 'Market impact',
+};
+const EVENT_TYPE_ALIASES: Record<string, string> = {
+  elections: 'Election', vote: 'Election', referendum: 'Election',
+  interestratedecision: 'Rate decision', monetarypolicy: 'Rate decision', ratecut: 'Rate decision', ratehike: 'Rate decision',
+  tariff: 'Trade action', tariffs: 'Trade action', trade: 'Trade action', tradeaction: 'Trade action', tradepolicy: 'Trade action',
+  sanction: 'Sanctions', embargo: 'Sanctions',
+  fiscal: 'Fiscal package', fiscalpolicy: 'Fiscal package', budget: 'Fiscal package', stimulus: 'Fiscal package',
+  regulatory: 'Regulation', regulatoryaction: 'Regulation',
+  bill: 'Legislation', law: 'Legislation',
+  war: 'Military conflict', conflict: 'Military conflict', military: 'Military conflict',
+  summit: 'Diplomatic summit', diplomacy: 'Diplomatic summit', diplomatic: 'Diplomatic summit',
+  court: 'Court ruling', legalruling: 'Court ruling',
+  crisis: 'Political crisis', protest: 'Political crisis', unrest: 'Political crisis',
+  data: 'Economic data', economicrelease: 'Economic data',
+  none: 'Other', general: 'Other', unknown: 'Other',
+};
+const REGION_ALIASES: Record<string, string> = {
+  northamerica: 'Americas', southamerica: 'Americas', latinamerica: 'Americas', latam: 'Americas',
+  us: 'Americas', usa: 'Americas', unitedstates: 'Americas', america: 'Americas', canada: 'Americas',
+  eu: 'Europe', eurozone: 'Europe', uk: 'Europe', unitedkingdom: 'Europe',
+  asiapacific: 'Asia', apac: 'Asia', eastasia: 'Asia', china: 'Asia', japan: 'Asia', india: 'Asia',
+  mena: 'Middle East', gulf: 'Middle East', mideast: 'Middle East',
+  subsaharanafrica: 'Africa', northafrica: 'Africa',
+};
+
+export type ValidationStatus = 'valid' | 'normalized' | 'repaired' | 'invalid';
+
+// Per-article outcome reported alongside each analysis
+export interface AnalysisValidation {
+  status: ValidationStatus;
+  issues: string[];
+}
+
+export type ValidatedFields = Pick<AnalyzedArticle, 'region' | 'analysis' | 'implications' | 'entities' | 'eventType'>;
+
+export interface ValidationResult {
+  value: ValidatedFields | null; // null when the item has errors that need a repair
+  errors: string[];
+  fixes: string[]; // near-misses that were normalized or defaulted
+}
+
+// Check one raw LLM analysis item against the schema, normalizing near-misses.
+// `defaultRegion` is used when the model leaves the region out; `assets` are the implications expected.
+export function validateAnalysis(raw: unknown, defaultRegion: string, assets: MacroAsset[]): ValidationResult {
+  const errors: string[] = [];
+  const fixes: string[] = [];
+
+  if (!raw || typeof raw !== 'object') {
+    return { value: null, errors: ['analysis is not an object'], fixes };
+  }
+  const item = raw as Record<string, unknown>;
+
+  const summary = typeof item.summary === 'string' ? item.summary.trim() : '';
+  if (!summary) errors.push('summary is missing');
+
+  let region = defaultRegion;
+  if (item.region === undefined || item.region === '') {
+    fixes.push(`region missing, defaulted to ${defaultRegion}`);
+  } else {
+    region = normalizeField('region', item.region, REGIONS, REGION_ALIASES, errors, fixes) || defaultRegion;
+  }
+
+  const overallSentiment = normalizeField('overallSentiment', item.overallSentiment, SENTIMENTS, SENTIMENT_ALIASES, errors, fixes);
+
+  const sectors: SectorImpact[] = [];
+  if (item.sectors === undefined) {
+    fixes.push('sectors missing, defaulted to none');
+  } else if (!Array.isArray(item.sectors)) {
+    errors.push('sectors is not an array');
+  } else {
+    item.sectors.forEach((rawSector, i) => {
+      const sector = validateSector(rawSector, `sectors[${i}]`, errors, fixes);
+      if (sector) sectors.push(sector);
+    });
+  }
+
+  // Article-level probability defaults to the average of its sectors'
+  const sectorProbabilities = sectors.map(s => s.probability!);
+  const defaultProbability = sectorProbabilities.length
+    ? sectorProbabilities.reduce((sum, p) => sum + p, 0) / sectorProbabilities.length
+    : 0.6;
+
+  const entities = validateEntities(item.entities, fixes);
+  const eventType = normalizeEventType(item.eventType, fixes);
+
+  const implications = validateImplications(item.implications, assets, fixes);
+
+  if (errors.length > 0 || !overallSentiment) {
+    return { value: null, errors, fixes };
+  }
+
+  return {
+    value: {
+      region,
+      analysis: {
+        summary,
+        sectors,
+        overallSentiment,
+        keyInsight: typeof item.keyInsight === 'string' ? item.keyInsight.trim() : '',
+        impactScore: normalizeScore('impactScore', item.impactScore, overallSentiment, fixes),
+        probability: normalizeProbability('probability', item.probability, defaultProbability, fixes),
+        causalChain: validateCausalChain(item.causalChain, fixes),
+      },
+      implications,
+      entities,
+      eventType,
+    },
+    errors,
+    fixes,
+  };
+}
+
+// Summarize a validation result; `repaired` marks items that needed a repair re-prompt
+export function validationOutcome(result: ValidationResult, repaired = false): AnalysisValidation {
+  if (!result.value) return { status: 'invalid', issues: result.errors };
+  if (repaired) return { status: 'repaired', issues: result.fixes };
+  return { status: result.fixes.length > 0 ? 'normalized' : 'valid', issues: result.fixes };
+}
+
+function validateSector(raw: unknown, path: string, errors: string[], fixes: string[]): SectorImpact | null {
+  if (!raw || typeof raw !== 'object') {
+    errors.push(`${path} is not an object`);
+    return null;
+  }
+  const item = raw as Record<string, unknown>;
+  const errorCount = errors.length;
+
+  const sector = normalizeField(`${path}.sector`, typeof item.sector === 'string' ? item.sector.trim() : item.sector, SECTORS, SECTOR_ALIASES, errors, fixes);
+
+  const impact = normalizeField(`${path}.impact`, item.impact, IMPACTS, { ...SENTIMENT_ALIASES, mixed: 'Uncertain', unclear: 'Uncertain', uncertain: 'Uncertain' }, errors, fixes);
+  const timeframe = normalizeField(`${path}.timeframe`, item.timeframe, TIMEFRAMES, TIMEFRAME_ALIASES, errors, fixes);
+  const confidence = normalizeField(`${path}.confidence`, item.confidence, CONFIDENCES, CONFIDENCE_ALIASES, errors, fixes);
+
+  let tickers: string[] = [];
+  if (Array.isArray(item.tickers)) {
+    tickers = item.tickers
+      .filter((t): t is string => typeof t === 'string')
+      .map(t => t.trim().toUpperCase().replace(/^\$/, ''))
+      .filter(Boolean);
+    if (tickers.length !== item.tickers.length) fixes.push(`${path}.tickers had non-ticker entries`);
+  } else if (typeof item.tickers === 'string') {
+    tickers = item.tickers.split(/[,\s]+/).map(t => t.trim().toUpperCase().replace(/^\$/, '')).filter(Boolean);
+    fixes.push(`${path}.tickers was a string`);
+  } else if (item.tickers !== undefined) {
+    errors.push(`${path}.tickers is not an array`);
+  }
+
+  if (errors.length > errorCount || !sector || !impact || !timeframe || !confidence) return null;
+  return {
+    sector,
+    impact,
+    reasoning: typeof item.reasoning === 'string' ? item.reasoning.trim() : '',
+    tickers,
+    timeframe,
+    confidence,
+    score: normalizeScore(`${path}.score`, item.score, impact, fixes),
+    probability: normalizeProbability(`${path}.probability`, item.probability, confidenceProbability(confidence), fixes),
+  };
+}
+
+// Entities are optional context, so bad entries are dropped rather than failing the analysis.
+// Names are canonicalized so "ECB" and "European Central Bank" filter together.
+function validateEntities(value: unknown, fixes: string[]): Entity[] {
+  if (value === undefined) {
+    fixes.push('entities missing, defaulted to none');
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    fixes.push('entities is not an array, dropped');
+    return [];
+  }
+
+  const entities: Entity[] = [];
+  value.forEach((raw, i) => {
+    const item = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+    const name = typeof item.name === 'string' ? item.name.trim() : '';
+    const errors: string[] = [];
+    const type = name ? normalizeField(`entities[${i}].type`, item.type, ENTITY_TYPES, ENTITY_TYPE_ALIASES, errors, fixes) : null;
+    if (!name || !type) {
+      fixes.push(`entities[${i}] dropped: ${errors[0] || 'name is missing'}`);
+      return;
+    }
+    const entity = canonicalizeEntity({ name, type });
+    if (entity.name !== name || entity.type !== type) fixes.push(`entities[${i}] "${name}" normalized to ${entity.name}`);
+    entities.push(entity);
+  });
+  return dedupeEntities(entities);
+}
+
+// The chain explains the summary rather than driving any numbers, so problems drop steps or the
+// whole chain instead of failing the analysis. Stages must not go backwards (market → event).
+function validateCausalChain(value: unknown, fixes: string[]): CausalStep[] | undefined {
+  if (value === undefined) {
+    fixes.push('causalChain missing');
+    return undefined;
+  }
+  if (!Array.isArray(value)) {
+    fixes.push('causalChain is not an array, dropped');
+    return undefined;
+  }
+
+  const steps: CausalStep[] = [];
+  value.forEach((raw, i) => {
+    const item = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+    const description = typeof item.description === 'string' ? item.description.trim() : '';
+    const errors: string[] = [];
+    const stage = normalizeField(`causalChain[${i}].stage`, item.stage, CAUSAL_STAGES, CAUSAL_STAGE_ALIASES, errors, fixes);
+    if (!description || !stage) {
+      fixes.push(`causalChain[${i}] dropped: ${errors[0] || 'description is missing'}`);
+      return;
+    }
+
+    const step: CausalStep = { stage, description };
+    if (stage === 'Market impact') {
+      if (typeof item.sector === 'string' && item.sector.trim()) step.sector = item.sector.trim();
+      if (Array.isArray(item.tickers)) {
+        step.tickers = item.tickers
+          .filter((t): t is string => typeof t === 'string')
+          .map(t => t.trim().toUpperCase().replace(/^\$/, ''))
+          .filter(Boolean);
+      }
+    }
+    steps.push(step);
+  });
+
+  const order = steps.map(s => CAUSAL_STAGES.indexOf(s.stage));
+  if (order.some((stage, i) => i > 0 && stage < order[i - 1])) {
+    fixes.push('causalChain stages out of order, dropped');
+    return undefined;
+  }
+  if (steps.length < 2) {
+    fixes.push('causalChain has fewer than two steps, dropped');
+    return undefined;
+  }
+  if (steps[steps.length - 1].stage !== 'Market impact') fixes.push('causalChain does not end in a market impact');
+  return steps;
+}
+
+// Event type only feeds filters and aggregates, so unknown values become Other instead of failing
+function normalizeEventType(value: unknown, fixes: string[]): EventType {
+  if (value === undefined || value === '') {
+    fixes.push('eventType missing, defaulted to Other');
+    return 'Other';
+  }
+  const errors: string[] = [];
+  const normalized = normalizeField('eventType', value, EVENT_TYPES, EVENT_TYPE_ALIASES, errors, fixes);
+  if (normalized) return normalized;
+  fixes.push(`eventType "${String(value)}" defaulted to Other`);
+  return 'Other';
+}
+
+// Match a value to an allowed enum, ignoring case, spacing and punctuation, then via aliases
+function normalizeField<T extends string>(
+  field: string,
+  value: unknown,
+  allowed: readonly T[],
+  aliases: Record<string, string>,
+  errors: string[],
+  fixes: string[]
+): T | null {
+  if (typeof value !== 'string' || !value.trim()) {
+    errors.push(`${field} is missing`);
+    return null;
+  }
+  if ((allowed as readonly string[]).includes(value)) return value as T;
+
+  const key = enumKey(value);
+  const match = allowed.find(option => enumKey(option) === key)
+    || allowed.find(option => option === aliases[key]);
+  if (match) {
+    fixes.push(`${field} "${value}" normalized to ${match}`);
+    return match;
+  }
+
+  errors.push(`${field} "${value}" is not one of ${allowed.join(', ')}`);
+  return null;
+}
+
+// Signed -1..1 magnitude. Percent-style values are scaled down, the sign follows the label,
+// and a missing score is derived from the label.
+function normalizeScore(field: string, value: unknown, label: string, fixes: string[]): number {
+  let score = parseNumber(value);
+  if (score === null) {
+    if (value !== undefined) fixes.push(`${field} "${String(value)}" is not a number`);
+    else fixes.push(`${field} missing, derived from ${label}`);
+    return labelScore(label);
+  }
+
+  if (Math.abs(score) > 1 && Math.abs(score) <= 100) {
+    fixes.push(`${field} ${score} scaled to ${score / 100}`);
+    score /= 100;
+  }
+  if (Math.abs(score) > 1) {
+    fixes.push(`${field} ${score} clamped`);
+    score = Math.sign(score);
+  }
+  if ((label === 'Bullish' && score < 0) || (label === 'Bearish' && score > 0)) {
+    fixes.push(`${field} ${score} contradicts ${label}, sign flipped`);
+    score = -score;
+  }
+  return Math.round(score * 100) / 100;
+}
+
+// 0-1 probability; accepts percentages and falls back to `fallback` when missing
+function normalizeProbability(field: string, value: unknown, fallback: number, fixes: string[]): number {
+  let probability = parseNumber(value);
+  if (probability === null) {
+    fixes.push(value === undefined ? `${field} missing, defaulted to ${fallback}` : `${field} "${String(value)}" is not a number`);
+    return Math.round(fallback * 100) / 100;
+  }
+
+  if (probability > 1 && probability <= 100) {
+    fixes.push(`${field} ${probability} scaled to ${probability / 100}`);
+    probability /= 100;
+  }
+  if (probability < 0 || probability > 1) {
+    fixes.push(`${field} ${probability} clamped`);
+    probability = Math.min(1, Math.max(0, probability));
+  }
+  return Math.round(probability * 100) / 100;
+}
+
+// Numbers, numeric strings and percentages ("70%" → 70; scaling happens in the callers)
+function parseNumber(value: unknown): number | null {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const parsed = Number(value.trim().replace(/%$/, ''));
+  return isFinite(parsed) ? parsed : null;
+}
+
+// One label per requested asset; missing or unreadable labels default to Neutral, extra keys are dropped
+function validateImplications(raw: unknown, assets: MacroAsset[], fixes: string[]): Record<string, string> {
+  if (raw !== undefined && (!raw || typeof raw !== 'object' || Array.isArray(raw))) {
+    fixes.push('implications is not an object, defaulted to Neutral');
+    raw = {};
+  }
+  const item = (raw || {}) as Record<string, unknown>;
+  const implications: Record<string, string> = {};
+  for (const asset of assets) {
+    const value = item[asset.id];
+    if (value === undefined) fixes.push(`implications.${asset.id} missing, defaulted to Neutral`);
+    implications[asset.id] = normalizeImplication(`implications.${asset.id}`, value, fixes);
+  }
+  return implications;
+}
+
+function normalizeImplication(field: string, value: unknown, fixes: string[]): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    if (value !== undefined) fixes.push(`${field} defaulted to Neutral`);
+    return 'Neutral';
+  }
+  const errors: string[] = [];
+  const normalized = normalizeField(field, value, SENTIMENTS, SENTIMENT_ALIASES, errors, fixes);
+  if (normalized) return normalized;
+  fixes.push(`${field} "${value}" defaulted to Neutral`);
+  return 'Neutral';
+}
+
+function enumKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z]/g, '');
+}